@@ -2,12 +2,16 @@ const esbuild = require('esbuild')
 const { nodeExternalsPlugin } = require('esbuild-node-externals')
 
 const shared = {
-  entryPoints: [
-    'src/joystick/Button.ts',
-    'src/joystick/Dpad.ts', 
-    'src/joystick/Joystick.ts',
-    'src/joystick/RetractableSlider.ts'
-  ],
+  entryPoints: {
+    Button: 'src/joystick/Button.ts',
+    Dpad: 'src/joystick/Dpad.ts',
+    Joystick: 'src/joystick/Joystick.ts',
+    RetractableSlider: 'src/joystick/RetractableSlider.ts',
+    // framework bindings (react and vue are peer dependencies, kept external)
+    react: 'src/react/index.ts',
+    vue: 'src/vue/index.ts',
+    svelte: 'src/svelte/index.ts'
+  },
   bundle: true,
   minify: true,
   sourcemap: true,
@@ -1,4 +1,23 @@
+export * from './joystick/Anchor';
+export * from './joystick/BaseController';
+export * from './joystick/Bindings';
 export * from './joystick/Button';
+export * from './joystick/ControllerHub';
 export * from './joystick/Dpad';
+export * from './joystick/Elements';
+export * from './joystick/EventEmitter';
+export * from './joystick/GamepadBridge';
+export * from './joystick/Gestures';
+export * from './joystick/HitShape';
+export * from './joystick/Hold';
 export * from './joystick/Joystick';
-export * from './joystick/RetractableSlider';
\ No newline at end of file
+export * from './joystick/KeyboardBridge';
+export * from './joystick/KeyRepeat';
+export * from './joystick/Layout';
+export * from './joystick/LayoutEditor';
+export * from './joystick/LayoutStorage';
+export * from './joystick/PointerManager';
+export * from './joystick/Response';
+export * from './joystick/RetractableSlider';
+export * from './joystick/Theme';
+export * from './joystick/VirtualGamepad';
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * Anchor 🎮 - Place controllers relative to the edges of their container
+ *
+ * An anchor pins a controller to a corner, an edge or the center of its container with offsets
+ * measured inwards from that edge. The safe-area insets (notches, home indicators) are added to the
+ * offsets, so controls stay reachable on every device. The result is plain CSS top / left.
+ */
+
+// Anchors of a controller in its container
+export type Anchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+export const anchors: Anchor[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+];
+
+// Anchor options of a controller
+export interface AnchorOptions {
+  // anchor in the container, replaces top / left
+  anchor?: Anchor;
+  // offset from the anchored edge towards the center, px or a CSS length (default: 0)
+  offsetX?: number | string;
+  offsetY?: number | string;
+  // add the safe-area insets (env(safe-area-inset-*)) to the offsets (default: true)
+  safeArea?: boolean;
+}
+
+// Box of a controller used to resolve its anchor
+export interface AnchorBox {
+  // size of the controller as CSS lengths
+  width: string;
+  height: string;
+  // true if top / left is the center of the controller (translate(-50%, -50%)), false for its top left corner
+  centered: boolean;
+}
+
+// CSS length of an offset
+const length = (value: number | string | undefined) =>
+  value === undefined
+    ? "0px"
+    : typeof value === "number"
+    ? `${value}px`
+    : value;
+
+/**
+ * Resolve Anchor
+ *
+ * Returns the CSS top / left of a controller box for its anchor options
+ */
+export function resolveAnchor(
+  options: AnchorOptions,
+  box: AnchorBox
+): { top: string; left: string } {
+  const anchor = options.anchor || "center";
+  const [vertical, horizontal] = anchor.includes("-")
+    ? anchor.split("-")
+    : anchor === "top" || anchor === "bottom"
+    ? [anchor, "center"]
+    : ["center", anchor];
+  const inset = (side: string) =>
+    options.safeArea === false ? "0px" : `env(safe-area-inset-${side}, 0px)`;
+
+  // position of the top left corner (or the center) along one axis
+  const axis = (
+    align: string,
+    start: string,
+    end: string,
+    offset: string,
+    size: string
+  ) => {
+    const corner =
+      align === start
+        ? `${inset(start)} + ${offset}`
+        : align === end
+        ? `100% - ${inset(end)} - ${offset} - ${size}`
+        : `50% - ${size} / 2 + ${offset}`;
+    return box.centered ? `calc(${corner} + ${size} / 2)` : `calc(${corner})`;
+  };
+
+  return {
+    top: axis(vertical, "top", "bottom", length(options.offsetY), box.height),
+    left: axis(horizontal, "left", "right", length(options.offsetX), box.width),
+  };
+}
+
+/**
+ * Position Container
+ *
+ * Makes a statically positioned container the containing block of its controllers
+ */
+export function positionContainer(container: HTMLElement) {
+  if (
+    container !== document.body &&
+    getComputedStyle(container).position === "static"
+  ) {
+    container.style.position = "relative";
+  }
+}
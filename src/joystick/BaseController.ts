@@ -0,0 +1,267 @@
+/**
+ * Base Controller 🎮 - Shared lifecycle for the on-screen controllers
+ *
+ * Tracks every DOM listener a controller attaches so it can be enabled, disabled and destroyed cleanly.
+ */
+
+import {
+  AnchorBox,
+  AnchorOptions,
+  positionContainer,
+  resolveAnchor,
+} from "./Anchor";
+import { EventEmitter, EventMap } from "./EventEmitter";
+import { HitShape, hitTestShape } from "./HitShape";
+import { PointerManager, PointerMode, PointerTarget } from "./PointerManager";
+import { applyTheme, resolveTheme, Theme, ThemeName } from "./Theme";
+
+/**
+ * Defined Options
+ *
+ * Drops the options that are undefined, so they do not overwrite fields in update()
+ */
+export function definedOptions<Options extends object>(
+  options: Options
+): Partial<Options> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<Options>;
+}
+
+// A DOM listener registered by a controller
+interface ListenerRecord {
+  target: EventTarget;
+  type: string;
+  handler: EventListener;
+  options?: boolean | AddEventListenerOptions;
+}
+
+/**
+ * Base Controller
+ */
+export abstract class BaseController<
+    Events extends EventMap = EventMap,
+    State extends object = object
+  >
+  extends EventEmitter<Events>
+  implements PointerTarget
+{
+  // root element of the controller
+  abstract base: HTMLElement | SVGElement;
+  // container of the controller
+  abstract container: HTMLElement;
+  // position of the controller in its container (CSS top / left)
+  abstract top: string;
+  abstract left: string;
+  // anchor of the controller (undefined when it is placed by top / left)
+  anchoring?: AnchorOptions;
+  // theme properties scoped to the controller (the rest is inherited from the container)
+  theme: Theme = {};
+  // false while the controller is disabled (input is ignored)
+  isEnabled: boolean = true;
+  // true once the controller has been destroyed
+  isDestroyed: boolean = false;
+  // pointer manager (set by trackPointers)
+  pointers?: PointerManager;
+  // how the controller holds its pointer and its hit priority in the pointer manager
+  pointerMode: PointerMode = "capture";
+  pointerPriority: number = 0;
+  // region of the controller that accepts touches
+  hitShape: HitShape = { type: "rect" };
+  // rotation in degrees (the hit shape is rotated with the controller)
+  rotate?: number;
+  // listeners attached by the controller
+  private listeners: ListenerRecord[] = [];
+
+  /**
+   * Log
+   */
+  abstract log(message: string): void;
+
+  /**
+   * Release
+   *
+   * Release any input that is currently held and reset the UI to its idle state
+   */
+  abstract release(): void;
+
+  /**
+   * Get State
+   *
+   * Returns a snapshot of the controller input for polling from a game loop.
+   * The same object is reused on every call, copy it if it has to be kept.
+   */
+  abstract getState(): State;
+
+  /**
+   * Pointer Down / Move / Up
+   *
+   * Called by the pointer manager for the pointer assigned to the controller
+   */
+  abstract pointerDown(e: PointerEvent): void;
+  abstract pointerMove(e: PointerEvent): void;
+  abstract pointerUp(e: PointerEvent): void;
+
+  /**
+   * Anchor Box
+   *
+   * Size of the controller and whether top / left is its center, used to resolve its anchor
+   */
+  abstract anchorBox(): AnchorBox;
+
+  /**
+   * Set Anchor
+   *
+   * Places the controller at an anchor of its container, or keeps top / left if no anchor is given
+   */
+  setAnchor(options?: AnchorOptions) {
+    if (!options || !options.anchor) {
+      this.anchoring = undefined;
+      return;
+    }
+    const { anchor, offsetX, offsetY, safeArea } = options;
+    this.anchoring = { anchor, offsetX, offsetY, safeArea };
+    const { top, left } = resolveAnchor(this.anchoring, this.anchorBox());
+    this.top = top;
+    this.left = left;
+    this.base.style.top = top;
+    this.base.style.left = left;
+    positionContainer(this.container);
+  }
+
+  /**
+   * Update Anchor
+   *
+   * Applies the position options of update(): top / left replace the anchor, anchor options are merged
+   * into the current anchor, and an anchored controller is placed again for its new size
+   */
+  updateAnchor(options: AnchorOptions & { top?: string; left?: string }) {
+    const anchoring = definedOptions({
+      anchor: options.anchor,
+      offsetX: options.offsetX,
+      offsetY: options.offsetY,
+      safeArea: options.safeArea,
+    });
+    if (
+      anchoring.anchor ||
+      (this.anchoring && Object.keys(anchoring).length > 0)
+    ) {
+      this.setAnchor({ ...this.anchoring, ...anchoring });
+    } else if (options.top !== undefined || options.left !== undefined) {
+      this.setAnchor(undefined);
+    } else if (this.anchoring) {
+      this.setAnchor(this.anchoring);
+    }
+  }
+
+  /**
+   * Set Theme
+   *
+   * Restyles the controller live with a built-in theme or theme properties
+   */
+  setTheme(theme: ThemeName | Theme) {
+    this.theme = resolveTheme(theme);
+    applyTheme(this.base, this.theme);
+  }
+
+  /**
+   * Hit Test
+   *
+   * True if the point (client coordinates) is on the hit shape of the controller
+   */
+  hitTest(clientX: number, clientY: number) {
+    return hitTestShape(
+      this.hitShape,
+      this.base,
+      this.rotate || 0,
+      clientX,
+      clientY
+    );
+  }
+
+  /**
+   * Track Pointers
+   *
+   * Registers the controller with the shared pointer manager
+   */
+  trackPointers() {
+    this.pointers = PointerManager.shared();
+    this.pointers.add(this);
+  }
+
+  /**
+   * Listen
+   *
+   * Add an event listener that is removed again when the controller is destroyed
+   */
+  listen<E extends Event>(
+    target: EventTarget,
+    type: string,
+    handler: (e: E) => void,
+    options?: boolean | AddEventListenerOptions
+  ) {
+    if (this.isDestroyed) {
+      throw new Error("Controller has been destroyed!");
+    }
+    const record: ListenerRecord = {
+      target,
+      type,
+      handler: handler as EventListener,
+      options,
+    };
+    target.addEventListener(type, record.handler, options);
+    this.listeners.push(record);
+  }
+
+  /**
+   * Remove Listeners
+   *
+   * Removes every listener added with listen()
+   */
+  removeListeners() {
+    this.listeners.forEach(({ target, type, handler, options }) =>
+      target.removeEventListener(type, handler, options)
+    );
+    this.listeners = [];
+  }
+
+  /**
+   * Enable
+   *
+   * Resume handling input after disable()
+   */
+  enable() {
+    if (this.isDestroyed || this.isEnabled) return;
+    this.log("Enabled");
+    this.isEnabled = true;
+  }
+
+  /**
+   * Disable
+   *
+   * Stop handling input without removing the controller from the DOM
+   */
+  disable() {
+    if (this.isDestroyed || !this.isEnabled) return;
+    this.log("Disabled");
+    this.release();
+    this.isEnabled = false;
+  }
+
+  /**
+   * Destroy
+   *
+   * Releases held input, removes all listeners and removes the controller from the DOM
+   */
+  destroy() {
+    if (this.isDestroyed) return;
+    this.log("Destroyed");
+    this.release();
+    this.removeListeners();
+    this.pointers?.remove(this);
+    this.off();
+    this.base.remove();
+    this.isEnabled = false;
+    this.isDestroyed = true;
+  }
+}
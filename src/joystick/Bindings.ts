@@ -0,0 +1,268 @@
+/**
+ * Bindings 🎮 - Framework-agnostic glue for component wrappers
+ *
+ * A ControllerBinding owns the controller of a framework component: it creates the controller in the
+ * component's container, forwards the events to the latest handler props, applies changed props with
+ * update() and destroys the controller on unmount. The React, Vue and Svelte adapters are built on it.
+ */
+
+import { ButtonController, ButtonEvents, ButtonOptions } from "./Button";
+import { DpadController, DpadEvents, DpadOptions } from "./Dpad";
+import {
+  JoysickController,
+  JoysickControllerEvents,
+  JoysickControllerOptions,
+} from "./Joystick";
+import { LayoutControlType } from "./Layout";
+import {
+  RetrackableSlider,
+  RetrackableSliderEvents,
+  RetrackableSliderOptions,
+} from "./RetractableSlider";
+
+// Controller, events and constructor options of each control type
+interface BindingTypes {
+  joystick: {
+    controller: JoysickController;
+    events: JoysickControllerEvents;
+    options: JoysickControllerOptions;
+  };
+  dpad: {
+    controller: DpadController;
+    events: DpadEvents;
+    options: DpadOptions;
+  };
+  button: {
+    controller: ButtonController;
+    events: ButtonEvents;
+    options: ButtonOptions;
+  };
+  slider: {
+    controller: RetrackableSlider;
+    events: RetrackableSliderEvents;
+    options: RetrackableSliderOptions;
+  };
+}
+
+// Handler props of each control type and the event they subscribe to
+export const bindingHandlers = {
+  joystick: {
+    onStart: "start",
+    onMove: "move",
+    onEnd: "end",
+    onDirectionChange: "directionchange",
+  },
+  dpad: {
+    onPress: "press",
+    onRelease: "release",
+    onDirectionChange: "directionchange",
+    onCardinalPress: "cardinalpress",
+    onCardinalRelease: "cardinalrelease",
+  },
+  button: {
+    onPress: "press",
+    onRelease: "release",
+    onValue: "value",
+    onLongPress: "longpress",
+    onCharge: "charge",
+    onTap: "tap",
+    onDoubleTap: "doubletap",
+    onSwipe: "swipe",
+  },
+  slider: { onSlide: "slide", onRelease: "release" },
+} as const;
+
+// Options that can not be changed with update(), a new controller is created when they change
+const fixedOptions: { [type in LayoutControlType]: string[] } = {
+  joystick: ["uid", "mode", "activationZone"],
+  dpad: ["uid"],
+  button: ["uid"],
+  slider: ["uid"],
+};
+
+// Controller of a control type
+export type BindingController<Type extends LayoutControlType> =
+  BindingTypes[Type]["controller"];
+
+// Handler props of a control type
+export type BindingHandlers<Type extends LayoutControlType> = {
+  [Prop in keyof (typeof bindingHandlers)[Type]]?: BindingTypes[Type]["events"][(typeof bindingHandlers)[Type][Prop] &
+    keyof BindingTypes[Type]["events"]];
+};
+
+// Props of a component: the controller options (without the container and the callbacks) and the handlers
+export type BindingProps<Type extends LayoutControlType> = Omit<
+  BindingTypes[Type]["options"],
+  | "container"
+  | "onInputCallback"
+  | "onPressCallback"
+  | "onReleaseCallback"
+  | "onSlideCallback"
+  | "onTapCallback"
+  | "onDoubleTapCallback"
+  | "onLongPressCallback"
+  | "onSwipeCallback"
+> &
+  BindingHandlers<Type>;
+
+export type JoystickProps = BindingProps<"joystick">;
+export type DpadProps = BindingProps<"dpad">;
+export type ButtonProps = BindingProps<"button">;
+export type SliderProps = BindingProps<"slider">;
+
+// Props of any control type
+type AnyProps = { [prop: string]: unknown };
+
+// Compares two prop values, arrays (charge levels, polygon points) and plain objects (inline themes, activation
+// rects, hit shapes) are compared by their entries
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((entry, index) => sameValue(entry, b[index]))
+    );
+  }
+  if (
+    !a ||
+    !b ||
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    Object.getPrototypeOf(a) !== Object.prototype ||
+    Object.getPrototypeOf(b) !== Object.prototype
+  )
+    return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => sameValue((a as AnyProps)[key], (b as AnyProps)[key]))
+  );
+};
+
+/**
+ * Create Controller
+ *
+ * Creates the controller of a control type
+ */
+function createController<Type extends LayoutControlType>(
+  type: Type,
+  options: AnyProps
+): BindingController<Type> {
+  switch (type) {
+    case "joystick":
+      return new JoysickController(
+        options as JoysickControllerOptions
+      ) as BindingController<Type>;
+    case "dpad":
+      return new DpadController(
+        options as unknown as DpadOptions
+      ) as BindingController<Type>;
+    case "button":
+      return new ButtonController(
+        options as unknown as ButtonOptions
+      ) as BindingController<Type>;
+    default:
+      return new RetrackableSlider(
+        options as unknown as RetrackableSliderOptions
+      ) as BindingController<Type>;
+  }
+}
+
+/**
+ * Controller Binding
+ *
+ * Owns the controller of a component
+ */
+export class ControllerBinding<Type extends LayoutControlType> {
+  // control type
+  type: Type;
+  // container of the controller (the element rendered by the component)
+  container: HTMLElement;
+  // the controller (recreated when a fixed option changes)
+  controller: BindingController<Type>;
+  // the latest props, the event handlers read the handler props from here
+  props: BindingProps<Type>;
+
+  /**
+   * Create the controller in the container
+   */
+  constructor(type: Type, container: HTMLElement, props: BindingProps<Type>) {
+    this.type = type;
+    this.container = container;
+    this.props = props;
+    this.controller = this.create();
+  }
+
+  /**
+   * Create
+   *
+   * Creates the controller from the props and subscribes the handler props
+   */
+  private create() {
+    const handlers = bindingHandlers[this.type] as { [prop: string]: string };
+    const options: AnyProps = { container: this.container };
+    Object.entries(this.props).forEach(([prop, value]) => {
+      if (!(prop in handlers) && value !== undefined) options[prop] = value;
+    });
+    const controller = createController(this.type, options);
+    Object.entries(handlers).forEach(([prop, event]) => {
+      (
+        controller.on as (
+          event: string,
+          handler: (...args: unknown[]) => void
+        ) => void
+      )(event, (...args) => {
+        const handler = (this.props as AnyProps)[prop];
+        if (typeof handler === "function") handler(...args);
+      });
+    });
+    return controller;
+  }
+
+  /**
+   * Update
+   *
+   * Applies the changed props: handlers are swapped, options are passed to update() and a change of a
+   * fixed option (or a removed option) creates a new controller
+   */
+  update(props: BindingProps<Type>) {
+    const handlers = bindingHandlers[this.type];
+    const previous = this.props as AnyProps;
+    const next = props as AnyProps;
+    this.props = props;
+
+    const changed: AnyProps = {};
+    let recreate = false;
+    new Set([...Object.keys(previous), ...Object.keys(next)]).forEach(
+      (prop) => {
+        if (prop in handlers || sameValue(previous[prop], next[prop])) return;
+        if (
+          next[prop] === undefined ||
+          fixedOptions[this.type].includes(prop)
+        ) {
+          recreate = true;
+        }
+        changed[prop] = next[prop];
+      }
+    );
+
+    if (recreate) {
+      this.controller.destroy();
+      this.controller = this.create();
+    } else if (Object.keys(changed).length > 0) {
+      (this.controller.update as (options: AnyProps) => void)(changed);
+    }
+    return this.controller;
+  }
+
+  /**
+   * Destroy
+   *
+   * Destroys the controller
+   */
+  destroy() {
+    this.controller.destroy();
+  }
+}
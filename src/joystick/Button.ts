@@ -4,13 +4,61 @@
  * Button is a ui element for a on-screen button that returns a boolean value when pressed.
  */
 
+import { AnchorOptions } from "./Anchor";
+import { BaseController, definedOptions } from "./BaseController";
+import { Gestures, SwipeDirection } from "./Gestures";
+import { HitShape, HitShapeType, resolveHitShape } from "./HitShape";
+import { Hold, validateChargeLevels } from "./Hold";
+import { KeyRepeat } from "./KeyRepeat";
+import { applyTheme, resolveTheme, Theme, ThemeName, themeVar } from "./Theme";
+
+/**
+ * Events emitted by the Button Controller
+ */
+export type ButtonEvents = {
+  // the button was pressed, repeat is true when the press was fired by the key repeat (turbo)
+  press: (repeat: boolean) => void;
+  // the button was released after being held for duration ms, level is the charge level it reached
+  release: (duration: number, level: number) => void;
+  // analog value (0 - 1) changed, from the pointer pressure or the hold ramp (analog mode)
+  value: (value: number) => void;
+  // the button was held for the long press duration
+  longpress: (duration: number) => void;
+  // a charge level was reached while the button is held
+  charge: (level: number, duration: number) => void;
+  // a single tap, reported once the double tap window has passed
+  tap: () => void;
+  // a second tap within the double tap window
+  doubletap: () => void;
+  // the pointer went down on the button and travelled the swipe distance
+  swipe: (direction: SwipeDirection) => void;
+};
+
+/**
+ * State of the Button Controller
+ */
+export interface ButtonState {
+  // true while the button is held
+  isPressed: boolean;
+  // true if the button was pressed since the previous getState call
+  justPressed: boolean;
+  // true if the button was released since the previous getState call
+  justReleased: boolean;
+  // analog value (0 - 1), 1 while held if the button is not analog
+  value: number;
+  // time in ms the button has been held
+  holdDuration: number;
+  // charge level reached by the current hold
+  chargeLevel: number;
+}
+
 /**
  *  Options for the Button Controller
  */
 /**
  * Options for configuring a joystick button.
  */
-export interface ButtonOptions {
+export interface ButtonOptions extends AnchorOptions {
   uid?: string;
   container?: HTMLElement;
   top?: string;
@@ -22,19 +70,76 @@ export interface ButtonOptions {
   rotate?: number;
   // shape config
   radius?: number;
+  // built-in theme name or theme properties (default: the theme inherited from the container)
+  theme?: ThemeName | Theme;
   // svg icon for the button (optional)
   svg?: string;
+  // slide - a held press slides out of the button and into neighbouring buttons (default: true)
+  slide?: boolean;
+  // region that accepts touches with an optional padding (default: rounded-rect with the corner radius)
+  hitShape?: HitShapeType | HitShape;
+  // analog - emit "value" events with the pressure or the hold ramp (default: false)
+  analog?: boolean;
+  // pressure - use PointerEvent.pressure where the hardware reports it (default: true)
+  pressure?: boolean;
+  // time in ms for the analog value to ramp from 0 to 1 without pressure (default: 300)
+  rampDuration?: number;
+  // hold time in ms of a long press (default: none, no long presses)
+  longPressDuration?: number;
+  // hold times in ms of the charge levels, e.g. [400, 1000] (default: none)
+  chargeLevels?: number[];
+  // time in ms after a tap in which a second tap makes a double tap (default: 300, 0 disables double taps)
+  doubleTapWindow?: number;
+  // distance in px a pointer that went down on the button travels to swipe (default: 30, 0 disables swipes)
+  // until then a pointer that slides off the button keeps it pressed, unless it slides into another button
+  swipeDistance?: number;
+  // suppress press - "press" and "release" are only emitted for single taps, not for the other gestures (default: false)
+  suppressPress?: boolean;
+  // key repeat (turbo / autofire) while the button is held (default: false)
+  keyRepeat?: boolean;
+  // delay before the first repeat in ms (default: 400)
+  keyRepeatDelay?: number;
+  // interval between repeats in ms (default: 100)
+  keyRepeatInterval?: number;
   // logging
   verboseLogging?: boolean;
-  // callbacks
+  // callbacks (subscribed to the "press" and "release" events)
   onPressCallback?: () => void;
   onReleaseCallback?: () => void;
+  // gesture callbacks (subscribed to the "tap", "doubletap", "longpress" and "swipe" events)
+  onTapCallback?: () => void;
+  onDoubleTapCallback?: () => void;
+  onLongPressCallback?: (duration: number) => void;
+  onSwipeCallback?: (direction: SwipeDirection) => void;
 }
 
+// Options that can be changed with update()
+export type ButtonUpdateOptions = Partial<
+  Omit<
+    ButtonOptions,
+    | "uid"
+    | "container"
+    | "onPressCallback"
+    | "onReleaseCallback"
+    | "onTapCallback"
+    | "onDoubleTapCallback"
+    | "onLongPressCallback"
+    | "onSwipeCallback"
+  >
+>;
+
+// Parse an svg icon
+const parseSvg = (svg: string) =>
+  new DOMParser().parseFromString(svg, "image/svg+xml")
+    .documentElement as unknown as SVGElement;
+
 /**
  * Button Controller
  */
-export class ButtonController {
+export class ButtonController extends BaseController<
+  ButtonEvents,
+  ButtonState
+> {
   // Unique id for the button
   uid: string;
   // Button element container (usually body)
@@ -57,16 +162,34 @@ export class ButtonController {
   radius: number;
   // svg icon for the button (optional)
   svg: SVGElement | null;
+  // key repeat (turbo / autofire)
+  keyRepeat: boolean;
+  repeat: KeyRepeat;
+  // analog value, long press and charge levels
+  analog: boolean;
+  pressure: boolean;
+  hold: Hold;
+  // tap, double tap and swipe
+  gestures: Gestures;
+  suppressPress: boolean;
   // verbose logging
   verboseLogging: boolean;
-  // callback function for button press
-  onPressCallback: () => void;
-  // callback function for button release
-  onReleaseCallback: () => void;
   // HTML Base Element
   base: HTMLDivElement;
   // variables for button state
   isPressed: boolean = false;
+  // press / release edges since the previous getState call
+  pressEdge: boolean = false;
+  releaseEdge: boolean = false;
+  // state snapshot returned by getState
+  state: ButtonState = {
+    isPressed: false,
+    justPressed: false,
+    justReleased: false,
+    value: 0,
+    holdDuration: 0,
+    chargeLevel: 0,
+  };
 
   /**
    * Create a new Button Controller
@@ -74,6 +197,7 @@ export class ButtonController {
    * @param {ButtonOptions} options - Options for the button controller.
    */
   constructor(options: ButtonOptions) {
+    super();
     this.uid = options.uid || Math.random().toString(36).substring(7);
     this.container = options.container || document.body;
     this.top = options.top || "50%";
@@ -83,30 +207,93 @@ export class ButtonController {
     this.color = options.color || "gray";
     this.shadow =
       options.shadow || `0 4px 16px 0 ${this.color}, inset 0 0 0 1px #FFFFFF0D`;
+    // theme (the color and shadow given as options are scoped to this button)
+    this.theme = resolveTheme(options.theme, {
+      color: options.color,
+      shadow: options.shadow,
+    });
     this.rotate = options.rotate || 0;
     this.radius = options.radius || 5;
-    this.svg = options.svg
-      ? (new DOMParser().parseFromString(options.svg, "image/svg+xml")
-          .documentElement as unknown as SVGElement)
-      : null;
+    this.svg = options.svg ? parseSvg(options.svg) : null;
+    this.pointerMode = options.slide === false ? "capture" : "slide";
+    this.hitShape = resolveHitShape(options.hitShape, "rounded-rect");
     this.verboseLogging = options.verboseLogging || false;
-    this.onPressCallback =
-      options.onPressCallback ||
-      (() => {
-        if (this.verboseLogging)
-          console.log(`[ButtonController:${this.uid}] Button pressed!`);
-      });
-    this.onReleaseCallback =
-      options.onReleaseCallback ||
-      (() => {
-        if (this.verboseLogging)
-          console.log(`[ButtonController:${this.uid}] Button released!`);
-      });
+    this.keyRepeat = options.keyRepeat || false;
+    this.repeat = new KeyRepeat(
+      () => {
+        this.log("Button repeat!");
+        this.emit("press", true);
+      },
+      { delay: options.keyRepeatDelay, interval: options.keyRepeatInterval }
+    );
+    this.analog = options.analog || false;
+    this.pressure = options.pressure === undefined ? true : options.pressure;
+    this.hold = new Hold(
+      {
+        onValue: (value) => this.emit("value", value),
+        onLongPress: (duration) => {
+          // a swipe is no long press
+          if (this.gestures.swiped) return;
+          this.log("Button long press!");
+          this.emit("longpress", duration);
+        },
+        onCharge: (level, duration) => {
+          this.log(`Button charge level ${level}`);
+          this.emit("charge", level, duration);
+        },
+      },
+      {
+        rampDuration: options.rampDuration,
+        analog: this.analog,
+        longPressDuration: options.longPressDuration,
+        chargeLevels: options.chargeLevels,
+      }
+    );
+    this.suppressPress = options.suppressPress || false;
+    this.gestures = new Gestures(
+      {
+        onTap: (duration) => {
+          this.log("Button tap!");
+          this.emit("tap");
+          // the press of a suppressed single tap is emitted once it is known to be no other gesture
+          if (this.suppressPress) {
+            this.pressEdge = true;
+            this.emit("press", false);
+            this.releaseEdge = true;
+            this.emit("release", duration, 0);
+          }
+        },
+        onDoubleTap: () => {
+          this.log("Button double tap!");
+          this.emit("doubletap");
+        },
+        onSwipe: (direction) => {
+          this.log(`Button swipe ${direction}`);
+          this.emit("swipe", direction);
+        },
+      },
+      {
+        doubleTapWindow: options.doubleTapWindow,
+        swipeDistance: options.swipeDistance,
+      }
+    );
+    if (options.onPressCallback) this.on("press", options.onPressCallback);
+    if (options.onReleaseCallback)
+      this.on("release", options.onReleaseCallback);
+    if (options.onTapCallback) this.on("tap", options.onTapCallback);
+    if (options.onDoubleTapCallback)
+      this.on("doubletap", options.onDoubleTapCallback);
+    if (options.onLongPressCallback)
+      this.on("longpress", options.onLongPressCallback);
+    if (options.onSwipeCallback) this.on("swipe", options.onSwipeCallback);
 
     // init base
     this.base = document.createElement("div");
     this.base.id = `ts-button-${this.uid}`;
 
+    // anchor (replaces top / left)
+    this.setAnchor(options);
+
     // Init
     this.init();
   }
@@ -137,11 +324,7 @@ export class ButtonController {
 
     // add event handlers
     this.log("Adding Event Handlers...");
-    this.container.addEventListener("pointerup", this.onButtonUp.bind(this));
-    this.container.addEventListener(
-      "pointerdown",
-      this.onButtonDown.bind(this)
-    );
+    this.trackPointers();
     // prevent default touch events
     [
       "touchstart",
@@ -151,7 +334,7 @@ export class ButtonController {
       "selectstart",
       "contextmenu",
     ].forEach((e) =>
-      this.container.addEventListener(e, (event) => event.preventDefault())
+      this.listen(this.container, e, (event) => event.preventDefault())
     );
   }
 
@@ -171,14 +354,17 @@ export class ButtonController {
             left: ${this.left};
             width: ${this.width};
             height: ${this.height};
-            border: 4px solid ${this.color};
-            border-radius: ${borderRadius}%;
+            border: ${themeVar("borderWidth", "4px")} solid ${themeVar(
+      "borderColor",
+      themeVar("color", this.color)
+    )};
+            border-radius: ${themeVar("borderRadius", `${borderRadius}%`)};
             z-index: 1000;
-            background-color: ${this.color};
-            backdrop-filter: blur(10px);
-            box-shadow: ${this.shadow};
+            background-color: ${themeVar("color", this.color)};
+            backdrop-filter: ${themeVar("backdropFilter", "blur(10px)")};
+            box-shadow: ${themeVar("shadow", this.shadow)};
             transition: opacity 0.2s linear;
-            opacity: 0.6;
+            opacity: ${themeVar("opacity", "0.6")};
             /* Place Items at the center */
             display: flex;
             justify-content: center;
@@ -202,26 +388,173 @@ export class ButtonController {
     }
 
     // add to container
-    this.container.appendChild(this.base);
+    applyTheme(this.base, this.theme);
+    if (this.base.parentNode !== this.container)
+      this.container.appendChild(this.base);
+  }
+
+  /**
+   * Update
+   *
+   * Changes options after construction and renders the button again, a held press is kept
+   */
+  update(options: ButtonUpdateOptions) {
+    const {
+      theme,
+      anchor,
+      offsetX,
+      offsetY,
+      safeArea,
+      svg,
+      slide,
+      hitShape,
+      keyRepeatDelay,
+      keyRepeatInterval,
+      analog,
+      rampDuration,
+      longPressDuration,
+      chargeLevels,
+      doubleTapWindow,
+      swipeDistance,
+      ...changes
+    } = definedOptions(options);
+    if (doubleTapWindow !== undefined)
+      this.gestures.doubleTapWindow = doubleTapWindow;
+    if (swipeDistance !== undefined)
+      this.gestures.swipeDistance = swipeDistance;
+    if (chargeLevels !== undefined) {
+      validateChargeLevels(chargeLevels);
+      this.hold.chargeLevels = chargeLevels;
+    }
+    if (analog !== undefined) this.analog = this.hold.analog = analog;
+    if (rampDuration !== undefined) this.hold.rampDuration = rampDuration;
+    if (longPressDuration !== undefined)
+      this.hold.longPressDuration = longPressDuration;
+    Object.assign(this, changes);
+    if (svg !== undefined) {
+      if (this.svg) this.svg.remove();
+      this.svg = svg ? parseSvg(svg) : null;
+    }
+    if (slide !== undefined) this.pointerMode = slide ? "slide" : "capture";
+    if (hitShape !== undefined)
+      this.hitShape = resolveHitShape(hitShape, "rounded-rect");
+    if (keyRepeatDelay !== undefined) this.repeat.delay = keyRepeatDelay;
+    if (keyRepeatInterval !== undefined)
+      this.repeat.interval = keyRepeatInterval;
+    if (!this.keyRepeat) this.repeat.stop();
+    this.theme = resolveTheme(theme || this.theme, {
+      color: options.color,
+      shadow: options.shadow,
+    });
+    this.updateAnchor(options);
+
+    // keep the input state: the pressed opacity
+    const { opacity } = this.base.style;
+    this.render();
+    this.base.style.opacity = opacity;
+  }
+
+  /**
+   * Anchor Box
+   *
+   * The button is placed by its top left corner
+   */
+  anchorBox() {
+    return { width: this.width, height: this.height, centered: false };
+  }
+
+  /**
+   * Get State
+   *
+   * Returns the button state, the press / release edges are reset on every call
+   */
+  getState() {
+    this.state.isPressed = this.isPressed;
+    this.state.justPressed = this.pressEdge;
+    this.state.justReleased = this.releaseEdge;
+    this.state.value = this.analog ? this.hold.value : this.isPressed ? 1 : 0;
+    this.state.holdDuration = this.hold.duration;
+    this.state.chargeLevel = this.hold.level;
+    this.pressEdge = false;
+    this.releaseEdge = false;
+    return this.state;
+  }
+
+  /**
+   * Release
+   *
+   * Releases the button if it is currently pressed
+   */
+  release() {
+    this.repeat.stop();
+    if (!this.isPressed) return;
+    const longPressed = this.hold.longPressed;
+    const { duration, level } = this.hold.stop();
+    this.isPressed = false;
+    this.base.style.opacity = themeVar("opacity", "0.6");
+    if (!this.suppressPress) {
+      this.releaseEdge = true;
+      this.emit("release", duration, level);
+    }
+    this.gestures.end(duration, longPressed);
+  }
+
+  /**
+   * Disable / Destroy
+   *
+   * A button that is released by disabling or destroying it is no tap
+   */
+  disable() {
+    this.gestures.cancel();
+    super.disable();
+  }
+
+  destroy() {
+    this.gestures.cancel();
+    super.destroy();
   }
 
   // ***<< EVENT HANDLERS >>***
 
+  /**
+   * Pointer Down / Move / Up
+   *
+   * The pointer manager assigns a pointer to the button when it goes down on the button or slides into it,
+   * and releases it when the pointer is lifted or slides out. A pointer that slides off the button is held
+   * while it may still swipe, unless it slides into another button.
+   */
+  pointerDown(e: PointerEvent) {
+    this.onButtonDown(e);
+  }
+
+  pointerMove(e: PointerEvent) {
+    if (this.isPressed && this.pressure) this.hold.setPressure(e.pressure);
+    this.gestures.move(e.clientX, e.clientY);
+  }
+
+  holdsPointer() {
+    return this.isPressed && this.gestures.canSwipe;
+  }
+
+  pointerUp(e: PointerEvent) {
+    // a pointer that slid out of the button or was cancelled (it has no position) is no tap
+    if (e.type === "pointermove") this.gestures.leave(e.clientX, e.clientY);
+    else if (e.type === "pointercancel") this.gestures.leave();
+    else this.gestures.move(e.clientX, e.clientY);
+    this.onButtonUp();
+  }
+
   /**
    * Handle Button Up
    *
    * This function is called when the button is released.
    */
   onButtonUp() {
-    if (!this.isPressed) {
+    if (!this.isEnabled || !this.isPressed) {
       return;
     }
     this.log("Button Up!");
-    this.isPressed = false;
-    this.base.style.opacity = "0.6";
-    if (this.onReleaseCallback) {
-      this.onReleaseCallback.call(this);
-    }
+    this.release();
   }
 
   /**
@@ -229,13 +562,20 @@ export class ButtonController {
    *
    * This function is called when the button is pressed.
    */
-  onButtonDown() {
-    if (this.isPressed) return;
+  onButtonDown(e?: PointerEvent) {
+    if (!this.isEnabled || this.isPressed) return;
     this.log("Button Down!");
     this.isPressed = true;
-    this.base.style.opacity = "0.8";
-    if (this.onPressCallback) {
-      this.onPressCallback.call(this);
+    this.base.style.opacity = themeVar("activeOpacity", "0.8");
+    // only pointers that go down on the button swipe, not the ones that slide into it
+    if (e && e.type === "pointerdown")
+      this.gestures.start(e.clientX, e.clientY);
+    else this.gestures.start();
+    if (!this.suppressPress) {
+      this.pressEdge = true;
+      this.emit("press", false);
+      if (this.keyRepeat) this.repeat.start();
     }
+    this.hold.start(e && this.pressure ? e.pressure : undefined);
   }
 }
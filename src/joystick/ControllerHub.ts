@@ -0,0 +1,83 @@
+/**
+ * Controller Hub 🎮 - Poll every controller at once
+ *
+ * The hub groups controllers by id so a game loop can read all of them in one frame-consistent snapshot.
+ */
+
+import { BaseController } from "./BaseController";
+import { EventMap } from "./EventEmitter";
+
+// Controllers of a hub keyed by id
+export type HubControllers = { [id: string]: BaseController<EventMap, object> };
+
+// Snapshot of every controller of a hub keyed by id
+export type HubState<Controllers extends HubControllers> = {
+  [Id in keyof Controllers]: ReturnType<Controllers[Id]["getState"]>;
+};
+
+/**
+ * Controller Hub
+ */
+export class ControllerHub<
+  Controllers extends HubControllers = HubControllers
+> {
+  // controllers keyed by id
+  controllers: Controllers;
+  // snapshot returned by poll
+  state: HubState<Controllers>;
+
+  /**
+   * Create a new Controller Hub
+   *
+   * @param controllers - controllers keyed by id
+   */
+  constructor(controllers: Controllers) {
+    this.controllers = {} as Controllers;
+    this.state = {} as HubState<Controllers>;
+    for (const id in controllers) {
+      this.add(id, controllers[id]);
+    }
+  }
+
+  /**
+   * Add
+   *
+   * Add a controller to the hub
+   */
+  add<Id extends keyof Controllers>(id: Id, controller: Controllers[Id]) {
+    this.controllers[id] = controller;
+    this.state[id] = { ...controller.getState() } as HubState<Controllers>[Id];
+  }
+
+  /**
+   * Remove
+   *
+   * Remove a controller from the hub (the controller itself is not destroyed)
+   */
+  remove(id: keyof Controllers) {
+    delete this.controllers[id];
+    delete this.state[id];
+  }
+
+  /**
+   * Get
+   *
+   * Get a controller by id
+   */
+  get<Id extends keyof Controllers>(id: Id): Controllers[Id] {
+    return this.controllers[id];
+  }
+
+  /**
+   * Poll
+   *
+   * Copies the state of every controller into one snapshot.
+   * The snapshot is reused between calls and does not change until the next poll.
+   */
+  poll(): HubState<Controllers> {
+    for (const id in this.controllers) {
+      Object.assign(this.state[id], this.controllers[id].getState());
+    }
+    return this.state;
+  }
+}
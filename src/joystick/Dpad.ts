@@ -4,6 +4,17 @@
  * D-pad is a ui element for a on-screen directional pad that returns a directional value when pressed.
  */
 
+import { AnchorOptions } from "./Anchor";
+import { BaseController, definedOptions } from "./BaseController";
+import {
+  HitShape,
+  HitShapeType,
+  HitViewBox,
+  resolveHitShape,
+} from "./HitShape";
+import { KeyRepeat } from "./KeyRepeat";
+import { applyTheme, resolveTheme, Theme, ThemeName, themeVar } from "./Theme";
+
 // Paths for D-Pad
 const pathData = {
   up: "M264,30.79a19.8,19.8,0,0,0-28,0L172.64,94.17A173.44,173.44,0,0,1,232,76.58L236.58,72a19.8,19.8,0,0,1,28,0L269,76.46A173,173,0,0,1,325.21,92Z",
@@ -13,6 +24,12 @@ const pathData = {
   left: "M72,264.56a19.8,19.8,0,0,1,0-28l5.75-5.75A173.15,173.15,0,0,1,95.3,171.51L30.79,236a19.8,19.8,0,0,0,0,28l64.51,64.5a173.08,173.08,0,0,1-17.44-58Z",
 };
 
+// Arm paths as a hit shape (the paths are drawn translated by -25, -25 in the 450 x 450 view box)
+const armsHitPath = {
+  d: Object.values(pathData).join(" "),
+  viewBox: [25, 25, 450, 450] as HitViewBox,
+};
+
 // Direction type
 type direction =
   | "center"
@@ -24,9 +41,60 @@ type direction =
   | "down-right"
   | "up-left"
   | "down-left";
+export type DpadDirection = direction;
+
+// Cardinal directions (the four arms of the D-pad)
+export type DpadCardinal = "up" | "down" | "left" | "right";
+const cardinals: DpadCardinal[] = ["up", "down", "left", "right"];
+
+// Center angle of each direction sector in degrees (counter-clockwise from the right)
+const sectorCenters: { [key in Exclude<direction, "center">]: number } = {
+  right: 0,
+  "up-right": 45,
+  up: 90,
+  "up-left": 135,
+  left: 180,
+  "down-left": -135,
+  down: -90,
+  "down-right": -45,
+};
+
+// Angular distance between two angles in degrees (0 - 180)
+const angleDistance = (a: number, b: number) =>
+  Math.abs(((((a - b) % 360) + 540) % 360) - 180);
+
+// Events emitted by the D-pad Controller
+export type DpadEvents = {
+  // a direction was pressed, repeat is true when the press was fired by the key repeat
+  press: (direction: direction, repeat: boolean) => void;
+  // a direction was released (the D-pad was let go or moved to another direction)
+  release: (direction: direction) => void;
+  // the current direction changed
+  directionchange: (direction: direction, previous: direction) => void;
+  // a cardinal arm was pressed (moving from "up" to "up-right" only presses "right")
+  cardinalpress: (cardinal: DpadCardinal) => void;
+  // a cardinal arm was released
+  cardinalrelease: (cardinal: DpadCardinal) => void;
+};
+
+// State of the D-pad Controller
+export interface DpadState {
+  // current direction
+  direction: direction;
+  // pressed flags per axis
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  // direction as axis values (-1, 0 or 1, down is positive)
+  x: number;
+  y: number;
+  // true while the D-pad is touched
+  isPressed: boolean;
+}
 
 // Options for the D-pad Controller
-interface DpadOptions {
+export interface DpadOptions extends AnchorOptions {
   uid?: string;
   // container for the D-pad controller (Optional, default: document.body)
   container: HTMLElement;
@@ -42,7 +110,7 @@ interface DpadOptions {
   colorsPressed?: string;
   // center radius threshold (Optional, default: 0.25)
   centerRadiusThreshold?: number;
-  // callbacks for the D-pad controller
+  // callbacks for the D-pad controller (subscribed to the "press" and "release" events)
   // directions can be "center", "up", "right", "down", "left", "up-right", "down-right", "down-left", "up-left"
   onPressCallback?: (direction: direction) => void;
   onReleaseCallback?: (direction: direction) => void;
@@ -50,14 +118,36 @@ interface DpadOptions {
   verboseLogging?: boolean;
   // key repeat (repeat key press) (Optional, default: false)
   keyRepeat?: boolean;
+  // delay before the first repeat in ms (Optional, default: 400)
+  keyRepeatDelay?: number;
+  // interval between repeats in ms (Optional, default: 100)
+  keyRepeatInterval?: number;
   // rotation degree (for rotated D-pad on landscape mode) (Optional, default: 0)
   rotate?: number;
+  // 4-way or 8-way directions (Optional, default: 8)
+  mode?: 4 | 8;
+  // width of the diagonal sectors in degrees, 0 - 90 (Optional, default: 45)
+  diagonalWidth?: number;
+  // degrees the pointer has to move past a sector border to change direction (Optional, default: 0)
+  hysteresis?: number;
+  // built-in theme name or theme properties (Optional, default: the theme inherited from the container)
+  theme?: ThemeName | Theme;
+  // region that accepts touches with an optional padding, "path" without path data hits the arms (Optional, default: circle)
+  hitShape?: HitShapeType | HitShape;
 }
 
+// Options that can be changed with update()
+type DpadUpdateOptions = Partial<
+  Omit<
+    DpadOptions,
+    "uid" | "container" | "onPressCallback" | "onReleaseCallback"
+  >
+>;
+
 /**
  * D-pad Controller
  */
-export class DpadController {
+export class DpadController extends BaseController<DpadEvents, DpadState> {
   // Unique id for the D-pad controller
   uid: string;
   // D-pad controller container
@@ -74,9 +164,6 @@ export class DpadController {
   colorPressed: string;
   // center radius threshold out of this bound it counts as input
   centerThreshold?: number;
-  // callbacks
-  onPressCallback: (direction: direction) => void;
-  onReleaseCallback: (direction: direction) => void;
   // verbose
   verboseLogging: boolean;
   // variables
@@ -88,11 +175,28 @@ export class DpadController {
   inputRegisterDistance: number = 0;
   isPressed: boolean;
   keyRepeat?: boolean;
+  repeat: KeyRepeat;
   // rotation degree
   rotate: number;
+  // direction sectors
+  mode: 4 | 8;
+  diagonalWidth: number;
+  hysteresis: number;
+  // state snapshot returned by getState
+  state: DpadState = {
+    direction: "center",
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+    x: 0,
+    y: 0,
+    isPressed: false,
+  };
 
   // init the d-pad
   constructor(options: DpadOptions) {
+    super();
     this.uid = options.uid || Math.random().toString(36).substring(7);
     this.container = options.container || document.body;
     this.top = options.top || "50%";
@@ -100,6 +204,11 @@ export class DpadController {
     this.radius = options.radius || 5;
     this.colorBase = options.colorBase || "gray";
     this.colorPressed = options.colorsPressed || "rgb(69 69 69)";
+    // theme (the colors given as options are scoped to this D-pad)
+    this.theme = resolveTheme(options.theme, {
+      color: options.colorBase,
+      accentColor: options.colorsPressed,
+    });
     this.centerThreshold =
       options.centerRadiusThreshold == undefined
         ? 0.25
@@ -107,22 +216,18 @@ export class DpadController {
     // verbose logging
     this.verboseLogging = options.verboseLogging || false;
     // callbacks
-    this.onPressCallback =
-      options.onPressCallback ||
-      ((direction: direction) => {
-        if (this.verboseLogging)
-          console.log(
-            `[DpadController:${this.uid}] pressed direction ${direction}!`
-          );
-      });
-    this.onReleaseCallback = (direction: direction) => {
-      if (this.verboseLogging)
-        console.log(
-          `[DpadController:${this.uid}] released direction ${direction}!`
-        );
-    };
+    if (options.onPressCallback) this.on("press", options.onPressCallback);
+    if (options.onReleaseCallback)
+      this.on("release", options.onReleaseCallback);
     this.isPressed = false;
     this.keyRepeat = options.keyRepeat || false;
+    this.repeat = new KeyRepeat(
+      () => {
+        this.log(`repeat direction ${this.currentDirection}`);
+        this.emit("press", this.currentDirection, true);
+      },
+      { delay: options.keyRepeatDelay, interval: options.keyRepeatInterval }
+    );
 
     // create a base
     this.base = document.createElementNS("http://www.w3.org/2000/svg", "svg");
@@ -130,6 +235,19 @@ export class DpadController {
     this.basePaths = {};
     // rotation
     this.rotate = options.rotate || 0;
+    // hit region (the circle of the arms, or the arms themselves)
+    this.hitShape = resolveHitShape(options.hitShape, "circle", armsHitPath);
+    // direction sectors
+    this.mode = options.mode || 8;
+    this.diagonalWidth =
+      options.diagonalWidth === undefined ? 45 : options.diagonalWidth;
+    this.hysteresis = options.hysteresis || 0;
+    if (this.diagonalWidth < 0 || this.diagonalWidth > 90) {
+      throw new Error("D-pad diagonalWidth must be between 0 and 90 degrees!");
+    }
+
+    // anchor (replaces top / left)
+    this.setAnchor(options);
 
     // init
     this.init();
@@ -164,18 +282,11 @@ export class DpadController {
     // render
     this.render();
 
-    // add event handlers
-    this.base.addEventListener("pointerdown", this.onDpadDown.bind(this));
-    this.base.addEventListener("pointermove", this.onDpadMove.bind(this));
-    this.base.addEventListener("pointerup", this.onDpadUp.bind(this));
-    this.base.addEventListener("touchstart", (e: TouchEvent) => {
-      e.preventDefault();
-      this.onDpadDown(e);
-    });
-    this.base.addEventListener("touchend", (e: TouchEvent) => {
-      e.preventDefault();
-      this.onDpadUp(e);
-    });
+    // add event handlers (pointers are assigned by the pointer manager)
+    this.trackPointers();
+    // prevent scrolling and emulated mouse events for touches on the D-pad
+    this.listen(this.base, "touchstart", (e: TouchEvent) => e.preventDefault());
+    this.listen(this.base, "touchend", (e: TouchEvent) => e.preventDefault());
   }
 
   /**
@@ -198,28 +309,79 @@ export class DpadController {
           left: ${this.left};
           transform: translate(-50%, -50%);
           z-index: 1000;
-          opacity: 0.5;
+          opacity: ${themeVar("opacity", "0.5")};
           transition: opacity 0.3s ease-out;
           transform: rotate(${this.rotate}deg);
       `;
-    // Draw D-pad Paths
+    // Draw D-pad Paths (created once, restyled on every render)
     for (const [direction, d] of Object.entries(pathData)) {
-      const path = document.createElementNS(
-        "http://www.w3.org/2000/svg",
-        "path"
-      );
+      const path =
+        this.basePaths[direction] ||
+        document.createElementNS("http://www.w3.org/2000/svg", "path");
       path.id = "dpad-path-" + direction;
       path.setAttribute("d", d);
       path.setAttribute("transform", "translate(-25, -25)");
-      path.style.fill = this.colorBase;
+      path.style.fill = themeVar("color", this.colorBase);
+      path.style.stroke = themeVar("borderColor", "none");
+      path.style.strokeWidth = themeVar("borderWidth", "0px");
       path.style.transition = "fill 0.2s ease";
-      path.style.backdropFilter = "blur(5px)";
+      path.style.backdropFilter = themeVar("backdropFilter", "blur(5px)");
       this.base.appendChild(path);
       this.basePaths[direction] = path;
     }
 
     // add to container
-    this.container.appendChild(this.base);
+    applyTheme(this.base, this.theme);
+    if (this.base.parentNode !== this.container)
+      this.container.appendChild(this.base);
+  }
+
+  /**
+   * Update
+   *
+   * Changes options after construction and renders the D-pad again, a held direction is kept
+   */
+  update(options: DpadUpdateOptions) {
+    const {
+      theme,
+      anchor,
+      offsetX,
+      offsetY,
+      safeArea,
+      colorsPressed,
+      centerRadiusThreshold,
+      hitShape,
+      keyRepeatDelay,
+      keyRepeatInterval,
+      ...changes
+    } = definedOptions(options);
+    const diagonalWidth =
+      changes.diagonalWidth === undefined
+        ? this.diagonalWidth
+        : changes.diagonalWidth;
+    if (diagonalWidth < 0 || diagonalWidth > 90) {
+      throw new Error("D-pad diagonalWidth must be between 0 and 90 degrees!");
+    }
+    Object.assign(this, changes);
+    if (colorsPressed !== undefined) this.colorPressed = colorsPressed;
+    if (hitShape !== undefined)
+      this.hitShape = resolveHitShape(hitShape, "circle", armsHitPath);
+    if (centerRadiusThreshold !== undefined)
+      this.centerThreshold = centerRadiusThreshold;
+    if (keyRepeatDelay !== undefined) this.repeat.delay = keyRepeatDelay;
+    if (keyRepeatInterval !== undefined)
+      this.repeat.interval = keyRepeatInterval;
+    if (!this.keyRepeat) this.repeat.stop();
+    this.theme = resolveTheme(theme || this.theme, {
+      color: options.colorBase,
+      accentColor: colorsPressed,
+    });
+    this.updateAnchor(options);
+
+    // keep the input state: the pressed arms
+    this.render();
+    if (this.isPressed) this.updateDpadUI();
+    this.updateContainerRectangle();
   }
 
   /**
@@ -246,13 +408,12 @@ export class DpadController {
    * Change the pointer colors according to the direction
    */
   updateDpadUI() {
-    console.log(this.currentDirection);
     // for each base path
     Object.entries(this.basePaths).forEach(([direction, path]) => {
       if (this.currentDirection.includes(direction)) {
-        path.style.fill = this.colorPressed;
+        path.style.fill = themeVar("accentColor", this.colorPressed);
       } else {
-        path.style.fill = this.colorBase;
+        path.style.fill = themeVar("color", this.colorBase);
       }
     });
   }
@@ -266,9 +427,151 @@ export class DpadController {
     this.log("D-pad reset...");
     // reset the colors
     Object.values(this.basePaths).forEach((path) => {
-      path.style.fill = this.colorBase;
+      path.style.fill = themeVar("color", this.colorBase);
+    });
+    this.base.style.opacity = themeVar("opacity", "0.5");
+  }
+
+  /**
+   * Release
+   *
+   * Resets the D-pad and reports the release of the held direction
+   */
+  release() {
+    this.isPressed = false;
+    this.pointerId = -1;
+    this.resetDpad();
+    this.resetDirection();
+  }
+
+  /**
+   * Anchor Box
+   *
+   * The base is placed by its top left corner
+   */
+  anchorBox() {
+    const size = `${this.radius}px`;
+    return { width: size, height: size, centered: false };
+  }
+
+  /**
+   * Get State
+   *
+   * Returns the current direction and the pressed flags per axis
+   */
+  getState() {
+    const direction = this.currentDirection;
+    this.state.direction = direction;
+    this.state.up = direction.includes("up");
+    this.state.down = direction.includes("down");
+    this.state.left = direction.includes("left");
+    this.state.right = direction.includes("right");
+    this.state.x = Number(this.state.right) - Number(this.state.left);
+    this.state.y = Number(this.state.down) - Number(this.state.up);
+    this.state.isPressed = this.isPressed;
+    return this.state;
+  }
+
+  /**
+   * Sector Half Width
+   *
+   * Half of the angle covered by the sector of a direction
+   */
+  sectorHalfWidth(direction: Exclude<direction, "center">) {
+    const diagonalHalfWidth = this.mode === 4 ? 0 : this.diagonalWidth / 2;
+    return direction.includes("-") ? diagonalHalfWidth : 45 - diagonalHalfWidth;
+  }
+
+  /**
+   * Direction From Angle
+   *
+   * Finds the direction sector of an angle, the current direction is kept
+   * while the angle stays within its sector widened by the hysteresis
+   */
+  directionFromAngle(angle: number): direction {
+    const current = this.currentDirection;
+    if (
+      current !== "center" &&
+      angleDistance(angle, sectorCenters[current]) <=
+        this.sectorHalfWidth(current) + this.hysteresis
+    ) {
+      return current;
+    }
+    let nearest: direction = "center";
+    let nearestDistance = Infinity;
+    for (const [direction, center] of Object.entries(sectorCenters)) {
+      const key = direction as Exclude<direction, "center">;
+      // distance to the sector border (negative inside the sector)
+      const distance = angleDistance(angle, center) - this.sectorHalfWidth(key);
+      if (distance < nearestDistance) {
+        nearest = key;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Set Direction
+   *
+   * Changes the current direction and emits the release of the previous direction,
+   * the press of the new direction and the per-cardinal transitions
+   */
+  setDirection(direction: direction) {
+    if (this.currentDirection === direction) return;
+    const previous = this.currentDirection;
+    this.currentDirection = direction;
+    this.emit("directionchange", direction, previous);
+
+    // released direction and cardinals
+    if (previous !== "center") {
+      this.log(`released direction ${previous}!`);
+      this.emit("release", previous);
+    }
+    cardinals.forEach((cardinal) => {
+      if (previous.includes(cardinal) && !direction.includes(cardinal))
+        this.emit("cardinalrelease", cardinal);
+    });
+
+    // pressed direction and cardinals
+    cardinals.forEach((cardinal) => {
+      if (direction.includes(cardinal) && !previous.includes(cardinal))
+        this.emit("cardinalpress", cardinal);
     });
-    this.base.style.opacity = "0.5";
+    if (direction !== "center") {
+      this.log(`pressed direction ${direction}!`);
+      this.emit("press", direction, false);
+    }
+
+    // restart the key repeat for the new direction
+    if (this.keyRepeat && direction !== "center") this.repeat.start();
+    else this.repeat.stop();
+  }
+
+  /**
+   * Reset Direction
+   *
+   * Returns the direction to center and emits the release
+   */
+  resetDirection() {
+    this.setDirection("center");
+  }
+
+  /**
+   * Pointer Down / Move / Up
+   *
+   * Called by the pointer manager for the pointer assigned to the D-pad
+   */
+  pointerDown(e: PointerEvent) {
+    this.onDpadDown(e);
+  }
+
+  pointerMove(e: PointerEvent) {
+    this.onDpadMove(e);
+  }
+
+  pointerUp(e: PointerEvent) {
+    this.onDpadUp(e);
   }
 
   /**
@@ -276,28 +579,19 @@ export class DpadController {
    *
    * Triggers when pointer is Up
    */
-  onDpadUp(e: PointerEvent | TouchEvent) {
+  onDpadUp(e: PointerEvent) {
+    if (!this.isEnabled) return;
     this.log("Pointer Up!");
-    // reset for pointer event
-    if ("pointerId" in e && e.pointerId === this.pointerId) {
+    // reset for the pointer of the D-pad
+    if (e.pointerId === this.pointerId) {
       e.preventDefault();
       this.isPressed = false;
       this.pointerId = -1;
       this.resetDpad();
-      // reset for touch event
-    } else if (e instanceof TouchEvent && e.changedTouches.length > 0) {
-      e.preventDefault();
-      this.pointerId = -1;
-      this.resetDpad();
     }
 
     // reset direction and trigger callback
-    if (this.currentDirection !== "center") {
-      this.currentDirection = "center";
-      if (this.onReleaseCallback) {
-        this.onReleaseCallback.call(this, "center");
-      }
-    }
+    this.resetDirection();
   }
 
   /**
@@ -305,29 +599,17 @@ export class DpadController {
    *
    * Triggers when pointer is down
    */
-  onDpadDown(e: PointerEvent | TouchEvent) {
+  onDpadDown(e: PointerEvent) {
+    if (!this.isEnabled) return;
     this.log("D-pad pointer down...");
-    // Handle Pointer Events
-    if (e instanceof PointerEvent) {
-      this.base.setPointerCapture(e.pointerId);
-      this.isPressed = true;
-      this.pointerId = e.pointerId;
-      // update container rect for accurate calculation
-      this.updateContainerRectangle();
-      // change opacity of whole base when touched
-      // this.base.style.opacity = "1";
-      // handle pointer move
-      this.onDpadMove(e);
-    } else if (e instanceof TouchEvent && e.touches.length > 0) {
-      // monkey patch for touch events (mobile devices)
-      // Handle Touch Events
-      this.isPressed = true;
-      this.pointerId = e.touches[0].identifier;
-      // update container rect for accurate calculation
-      this.updateContainerRectangle();
-      // forward to pointer move
-      this.onDpadMove(e.touches[0] as unknown as PointerEvent);
-    }
+    this.isPressed = true;
+    this.pointerId = e.pointerId;
+    // update container rect for accurate calculation
+    this.updateContainerRectangle();
+    // change opacity of whole base when touched
+    // this.base.style.opacity = "1";
+    // handle pointer move
+    this.onDpadMove(e);
   }
 
   /**
@@ -336,7 +618,7 @@ export class DpadController {
    * Triggers when the touch / pointer moves
    */
   onDpadMove(e: PointerEvent) {
-    if (!this.isPressed) return;
+    if (!this.isEnabled || !this.isPressed) return;
 
     // * Joystick Logic Here
 
@@ -378,26 +660,16 @@ export class DpadController {
     let direction: direction = "center";
     // check if the distance from the center exceeds the input register threshold
     if (centerDistance > this.inputRegisterDistance) {
-      if (angle > -22.5 && angle <= 22.5) direction = "right";
-      else if (angle > 22.5 && angle <= 67.5) direction = "up-right";
-      else if (angle > 67.5 && angle <= 112.5) direction = "up";
-      else if (angle > 112.5 && angle <= 157.5) direction = "up-left";
-      else if (angle > 157.5 || angle <= -157.5) direction = "left";
-      else if (angle > -157.5 && angle <= -112.5) direction = "down-left";
-      else if (angle > -112.5 && angle <= -67.5) direction = "down";
-      else if (angle > -67.5 && angle <= -22.5) direction = "down-right";
+      direction = this.directionFromAngle(angle);
     }
 
     // state change
     if (this.currentDirection !== direction) {
-      this.currentDirection = direction;
+      this.log(`direction update: direction: ${direction} - angle: ${x},${y}`);
+      // trigger callbacks
+      this.setDirection(direction);
       // update ui
       this.updateDpadUI();
-      // trigger callbacks
-      this.log(`direction update: direction: ${direction} - angle: ${x},${y}`);
-      if (this.onPressCallback) {
-        this.onPressCallback.call(this, direction);
-      }
     }
   }
 }
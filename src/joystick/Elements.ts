@@ -0,0 +1,432 @@
+/**
+ * Elements 🎮 - The controllers as Web Components
+ *
+ * <ts-joystick>, <ts-dpad>, <ts-button> and <ts-slider> wrap the controller classes in custom elements,
+ * so controls can be dropped into plain HTML pages and any framework. Attributes map to the options,
+ * input is dispatched as CustomEvents and the controller is destroyed when the element is removed.
+ */
+
+import { ButtonController } from "./Button";
+import { DpadController } from "./Dpad";
+import { JoysickController } from "./Joystick";
+import { LayoutController } from "./Layout";
+import { RetrackableSlider } from "./RetractableSlider";
+
+// Type of an attribute value
+// length - a number of px or a CSS length string
+type AttributeType = "string" | "number" | "boolean" | "length";
+
+// Attributes of an element by name with the option they map to
+type AttributeSpec = {
+  [attribute: string]: [option: string, type: AttributeType];
+};
+
+// Attributes shared by every element
+const commonAttributes: AttributeSpec = {
+  top: ["top", "string"],
+  left: ["left", "string"],
+  anchor: ["anchor", "string"],
+  "offset-x": ["offsetX", "length"],
+  "offset-y": ["offsetY", "length"],
+  "safe-area": ["safeArea", "boolean"],
+  theme: ["theme", "string"],
+  "hit-shape": ["hitShape", "string"],
+  "verbose-logging": ["verboseLogging", "boolean"],
+};
+
+// Key repeat attributes of the D-pad and the button
+const keyRepeatAttributes: AttributeSpec = {
+  "key-repeat": ["keyRepeat", "boolean"],
+  "key-repeat-delay": ["keyRepeatDelay", "number"],
+  "key-repeat-interval": ["keyRepeatInterval", "number"],
+};
+
+// Styles of the shadow root, the control is placed inside the host
+const shadowStyles = `
+  :host {
+    display: block;
+    position: relative;
+    touch-action: none;
+  }
+  :host([hidden]) {
+    display: none;
+  }
+  .container {
+    position: absolute;
+    inset: 0;
+  }
+`;
+
+// HTMLElement is not defined outside the browser (server side rendering)
+const BaseElement =
+  typeof HTMLElement === "undefined"
+    ? (class {} as unknown as typeof HTMLElement)
+    : HTMLElement;
+
+/**
+ * Parse Attribute
+ *
+ * Converts an attribute value to an option value (undefined if the attribute is removed)
+ */
+function parseAttribute(value: string | null, type: AttributeType) {
+  if (value === null) return undefined;
+  switch (type) {
+    case "number":
+      return Number(value);
+    case "boolean":
+      return value !== "false";
+    case "length":
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Controller Element
+ *
+ * Base class of the custom elements
+ */
+export abstract class ControllerElement<
+  Controller extends LayoutController
+> extends BaseElement {
+  // the wrapped controller (while the element is connected)
+  controller?: Controller;
+  // container of the controller in the shadow root
+  container: HTMLDivElement;
+
+  /**
+   * Create the shadow root
+   */
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = shadowStyles;
+    this.container = document.createElement("div");
+    this.container.className = "container";
+    this.container.setAttribute("part", "container");
+    shadow.append(style, this.container);
+  }
+
+  /**
+   * Attribute Spec
+   *
+   * Attributes of the element with the option they map to
+   */
+  abstract attributeSpec(): AttributeSpec;
+
+  /**
+   * Create Controller
+   *
+   * Creates the controller with the options of the attributes
+   */
+  abstract createController(options: { [option: string]: unknown }): Controller;
+
+  /**
+   * Forward Events
+   *
+   * Dispatches the events of the controller as CustomEvents
+   */
+  abstract forwardEvents(controller: Controller): void;
+
+  /**
+   * Options
+   *
+   * Options of the controller read from the attributes
+   */
+  options() {
+    const options: { [option: string]: unknown } = {};
+    Object.entries(this.attributeSpec()).forEach(
+      ([attribute, [option, type]]) => {
+        const value = parseAttribute(this.getAttribute(attribute), type);
+        if (value !== undefined) options[option] = value;
+      }
+    );
+    return options;
+  }
+
+  /**
+   * Dispatch
+   *
+   * Dispatches a CustomEvent that bubbles out of the shadow root
+   */
+  dispatch(type: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(type, { detail, bubbles: true, composed: true })
+    );
+  }
+
+  /**
+   * Connected Callback
+   *
+   * Creates the controller when the element is added to the page
+   */
+  connectedCallback() {
+    if (this.controller) return;
+    this.controller = this.createController({
+      ...this.options(),
+      uid: this.id || undefined,
+      container: this.container,
+    });
+    this.forwardEvents(this.controller);
+  }
+
+  /**
+   * Disconnected Callback
+   *
+   * Destroys the controller when the element is removed from the page
+   */
+  disconnectedCallback() {
+    if (!this.controller) return;
+    this.controller.destroy();
+    this.controller = undefined;
+  }
+
+  /**
+   * Attribute Changed Callback
+   *
+   * Updates the controller when an attribute changes
+   */
+  attributeChangedCallback(
+    attribute: string,
+    previous: string | null,
+    value: string | null
+  ) {
+    if (!this.controller || previous === value) return;
+    const [option, type] = this.attributeSpec()[attribute];
+    const parsed = parseAttribute(value, type);
+    // options fixed at construction (and removed attributes) need a new controller
+    if (parsed === undefined || this.fixedOptions().includes(option)) {
+      this.disconnectedCallback();
+      this.connectedCallback();
+      return;
+    }
+    (
+      this.controller.update as (options: { [option: string]: unknown }) => void
+    )({ [option]: parsed });
+  }
+
+  /**
+   * Fixed Options
+   *
+   * Options that can not be changed with update()
+   */
+  fixedOptions(): string[] {
+    return [];
+  }
+
+  /**
+   * Get State
+   *
+   * Returns the state of the controller for polling
+   */
+  getState() {
+    return this.controller ? this.controller.getState() : undefined;
+  }
+}
+
+/**
+ * <ts-joystick>
+ *
+ * Events: start, input ({ x, y }), end, directionchange ({ direction, previous })
+ */
+export class JoystickElement extends ControllerElement<JoysickController> {
+  static attributes: AttributeSpec = {
+    ...commonAttributes,
+    radius: ["radius", "number"],
+    rotate: ["rotate", "number"],
+    color: ["color", "string"],
+    "thumb-color": ["thumbColor", "string"],
+    mode: ["mode", "string"],
+    "release-behavior": ["releaseBehavior", "string"],
+    axis: ["axis", "string"],
+    snap: ["snap", "number"],
+    "dead-zone": ["deadZone", "number"],
+    "outer-dead-zone": ["outerDeadZone", "number"],
+    "dead-zone-mode": ["deadZoneMode", "string"],
+    "response-curve": ["responseCurve", "string"],
+    "response-factor": ["responseFactor", "number"],
+  };
+  static observedAttributes = Object.keys(JoystickElement.attributes);
+
+  attributeSpec() {
+    return JoystickElement.attributes;
+  }
+
+  fixedOptions() {
+    return ["mode"];
+  }
+
+  createController(options: { [option: string]: unknown }) {
+    return new JoysickController(
+      options as unknown as ConstructorParameters<typeof JoysickController>[0]
+    );
+  }
+
+  forwardEvents(controller: JoysickController) {
+    controller.on("start", () => this.dispatch("start"));
+    controller.on("move", (x, y) => this.dispatch("input", { x, y }));
+    controller.on("end", () => this.dispatch("end"));
+    controller.on("directionchange", (direction, previous) =>
+      this.dispatch("directionchange", { direction, previous })
+    );
+  }
+}
+
+/**
+ * <ts-dpad>
+ *
+ * Events: press ({ direction, repeat }), release ({ direction }), directionchange ({ direction, previous }),
+ * input ({ x, y }) on every direction change
+ */
+export class DpadElement extends ControllerElement<DpadController> {
+  static attributes: AttributeSpec = {
+    ...commonAttributes,
+    ...keyRepeatAttributes,
+    radius: ["radius", "number"],
+    rotate: ["rotate", "number"],
+    "color-base": ["colorBase", "string"],
+    "colors-pressed": ["colorsPressed", "string"],
+    "center-radius-threshold": ["centerRadiusThreshold", "number"],
+    mode: ["mode", "number"],
+    "diagonal-width": ["diagonalWidth", "number"],
+    hysteresis: ["hysteresis", "number"],
+  };
+  static observedAttributes = Object.keys(DpadElement.attributes);
+
+  attributeSpec() {
+    return DpadElement.attributes;
+  }
+
+  createController(options: { [option: string]: unknown }) {
+    return new DpadController(
+      options as unknown as ConstructorParameters<typeof DpadController>[0]
+    );
+  }
+
+  forwardEvents(controller: DpadController) {
+    controller.on("press", (direction, repeat) =>
+      this.dispatch("press", { direction, repeat })
+    );
+    controller.on("release", (direction) =>
+      this.dispatch("release", { direction })
+    );
+    controller.on("directionchange", (direction, previous) => {
+      this.dispatch("directionchange", { direction, previous });
+      const { x, y } = controller.getState();
+      this.dispatch("input", { x, y });
+    });
+  }
+}
+
+/**
+ * <ts-button>
+ *
+ * Events: press ({ repeat }), release ({ duration, level }), value ({ value }), longpress ({ duration }),
+ * charge ({ level, duration }), tap, doubletap, swipe ({ direction })
+ */
+export class ButtonElement extends ControllerElement<ButtonController> {
+  static attributes: AttributeSpec = {
+    ...commonAttributes,
+    ...keyRepeatAttributes,
+    width: ["width", "string"],
+    height: ["height", "string"],
+    radius: ["radius", "number"],
+    rotate: ["rotate", "number"],
+    color: ["color", "string"],
+    shadow: ["shadow", "string"],
+    svg: ["svg", "string"],
+    slide: ["slide", "boolean"],
+    analog: ["analog", "boolean"],
+    pressure: ["pressure", "boolean"],
+    "ramp-duration": ["rampDuration", "number"],
+    "long-press-duration": ["longPressDuration", "number"],
+    "double-tap-window": ["doubleTapWindow", "number"],
+    "swipe-distance": ["swipeDistance", "number"],
+    "suppress-press": ["suppressPress", "boolean"],
+  };
+  static observedAttributes = Object.keys(ButtonElement.attributes);
+
+  attributeSpec() {
+    return ButtonElement.attributes;
+  }
+
+  createController(options: { [option: string]: unknown }) {
+    return new ButtonController(
+      options as unknown as ConstructorParameters<typeof ButtonController>[0]
+    );
+  }
+
+  forwardEvents(controller: ButtonController) {
+    controller.on("press", (repeat) => this.dispatch("press", { repeat }));
+    controller.on("release", (duration, level) =>
+      this.dispatch("release", { duration, level })
+    );
+    controller.on("value", (value) => this.dispatch("value", { value }));
+    controller.on("longpress", (duration) =>
+      this.dispatch("longpress", { duration })
+    );
+    controller.on("charge", (level, duration) =>
+      this.dispatch("charge", { level, duration })
+    );
+    controller.on("tap", () => this.dispatch("tap"));
+    controller.on("doubletap", () => this.dispatch("doubletap"));
+    controller.on("swipe", (direction) =>
+      this.dispatch("swipe", { direction })
+    );
+  }
+}
+
+/**
+ * <ts-slider>
+ *
+ * Events: input ({ value }), release
+ */
+export class SliderElement extends ControllerElement<RetrackableSlider> {
+  static attributes: AttributeSpec = {
+    ...commonAttributes,
+    width: ["width", "string"],
+    height: ["height", "string"],
+    color: ["color", "string"],
+    "border-color": ["borderColor", "string"],
+    "border-width": ["borderWidth", "string"],
+    "border-radius": ["borderRadius", "string"],
+    direction: ["direction", "string"],
+  };
+  static observedAttributes = Object.keys(SliderElement.attributes);
+
+  attributeSpec() {
+    return SliderElement.attributes;
+  }
+
+  createController(options: { [option: string]: unknown }) {
+    return new RetrackableSlider(
+      options as unknown as ConstructorParameters<typeof RetrackableSlider>[0]
+    );
+  }
+
+  forwardEvents(controller: RetrackableSlider) {
+    controller.on("slide", (value) => this.dispatch("input", { value }));
+    controller.on("release", () => this.dispatch("release"));
+  }
+}
+
+/**
+ * Define Elements
+ *
+ * Registers <ts-joystick>, <ts-dpad>, <ts-button> and <ts-slider> (elements that are already defined are skipped)
+ */
+export function defineElements() {
+  const elements: [string, CustomElementConstructor][] = [
+    ["ts-joystick", JoystickElement],
+    ["ts-dpad", DpadElement],
+    ["ts-button", ButtonElement],
+    ["ts-slider", SliderElement],
+  ];
+  elements.forEach(([name, element]) => {
+    if (!customElements.get(name)) customElements.define(name, element);
+  });
+}
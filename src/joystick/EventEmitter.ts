@@ -0,0 +1,74 @@
+/**
+ * Event Emitter 🎮 - A small typed event emitter for the controllers
+ *
+ * Lets several systems subscribe to the same controller event with on(), off() and once().
+ */
+
+// Map of event names to their handler signatures
+export type EventMap = { [event: string]: (...args: never[]) => void };
+
+// A subscribed handler
+interface HandlerRecord<H> {
+  handler: H;
+  once: boolean;
+}
+
+/**
+ * Event Emitter
+ */
+export class EventEmitter<Events extends EventMap> {
+  // subscribed handlers for each event
+  private handlers: { [E in keyof Events]?: HandlerRecord<Events[E]>[] } = {};
+
+  /**
+   * On
+   *
+   * Subscribe a handler to an event
+   */
+  on<E extends keyof Events>(event: E, handler: Events[E]): this {
+    (this.handlers[event] ||= []).push({ handler, once: false });
+    return this;
+  }
+
+  /**
+   * Once
+   *
+   * Subscribe a handler that is removed after it is called the first time
+   */
+  once<E extends keyof Events>(event: E, handler: Events[E]): this {
+    (this.handlers[event] ||= []).push({ handler, once: true });
+    return this;
+  }
+
+  /**
+   * Off
+   *
+   * Unsubscribe a handler. Without a handler every handler of the event is removed,
+   * without an event every handler of every event is removed.
+   */
+  off<E extends keyof Events>(event?: E, handler?: Events[E]): this {
+    if (event === undefined) {
+      this.handlers = {};
+    } else if (handler === undefined) {
+      delete this.handlers[event];
+    } else {
+      this.handlers[event] = this.handlers[event]?.filter(
+        (record) => record.handler !== handler
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Emit
+   *
+   * Call every handler subscribed to an event
+   */
+  emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>) {
+    const records = this.handlers[event];
+    if (!records || records.length === 0) return;
+    // drop once handlers before calling so they can re-subscribe themselves
+    this.handlers[event] = records.filter((record) => !record.once);
+    records.forEach((record) => record.handler.apply(this, args));
+  }
+}
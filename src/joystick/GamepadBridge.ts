@@ -0,0 +1,339 @@
+/**
+ * Gamepad Bridge 🎮 - Merge physical gamepads with the on-screen controllers
+ *
+ * Reads navigator.getGamepads() every frame and merges the physical sticks, d-pad and buttons
+ * with the on-screen controllers into one logical controller. The on-screen overlay is hidden and
+ * disabled while a physical gamepad is in use and revealed again on touch.
+ */
+
+import { ButtonController } from "./Button";
+import { DpadDirection, DpadController } from "./Dpad";
+import { EventEmitter } from "./EventEmitter";
+import { JoysickController } from "./Joystick";
+import { applyResponse } from "./Response";
+import { VirtualGamepad } from "./VirtualGamepad";
+
+// Indexes of the d-pad buttons in the standard gamepad mapping
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+// Events emitted by the Gamepad Bridge
+export type GamepadBridgeEvents = {
+  // a physical gamepad was connected
+  connect: (gamepad: Gamepad) => void;
+  // the physical gamepad was disconnected
+  disconnect: () => void;
+  // the merged stick moved, x and y are in the range [-1, 1]
+  move: (x: number, y: number) => void;
+  // the merged d-pad direction changed
+  directionchange: (direction: DpadDirection, previous: DpadDirection) => void;
+  // a merged button was pressed (standard mapping index)
+  buttonpress: (index: number) => void;
+  // a merged button was released (standard mapping index)
+  buttonrelease: (index: number) => void;
+  // the on-screen overlay was hidden or revealed
+  overlaychange: (visible: boolean) => void;
+};
+
+// State of the logical controller
+export interface GamepadBridgeState {
+  // merged stick in the range [-1, 1] (down is positive)
+  x: number;
+  y: number;
+  // merged d-pad direction and pressed flags per axis
+  direction: DpadDirection;
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  // merged buttons by standard mapping index
+  buttons: boolean[];
+  // true while a physical gamepad is connected
+  isPhysicalConnected: boolean;
+  // true while the on-screen overlay is visible
+  isOverlayVisible: boolean;
+}
+
+// Options for the Gamepad Bridge
+export interface GamepadBridgeOptions {
+  // on-screen joystick merged with the left stick
+  joystick?: JoysickController;
+  // on-screen D-pad merged with the d-pad buttons (12 - 15)
+  dpad?: DpadController;
+  // on-screen buttons by standard mapping index (0: A, 1: B, 2: X, 3: Y, ...)
+  buttons?: { [index: number]: ButtonController };
+  // index of the physical gamepad (default: the first connected gamepad)
+  gamepadIndex?: number;
+  // dead zone of the physical stick (0 - 1, default: 0.15)
+  deadZone?: number;
+  // hide the on-screen overlay while a physical gamepad is used (default: true)
+  autoHide?: boolean;
+  // gamepad source, stub it for testing (default: navigator.getGamepads)
+  getGamepads?: () => (Gamepad | null)[];
+  // verbose logging (default: false)
+  verboseLogging?: boolean;
+}
+
+/**
+ * Gamepad Bridge
+ */
+export class GamepadBridge extends EventEmitter<GamepadBridgeEvents> {
+  // on-screen controllers
+  joystick?: JoysickController;
+  dpad?: DpadController;
+  buttons: { [index: number]: ButtonController };
+  // physical gamepad
+  gamepadIndex?: number;
+  deadZone: number;
+  autoHide: boolean;
+  getGamepads: () => (Gamepad | null)[];
+  // verbose logging
+  verboseLogging: boolean;
+  // merged state returned by getState
+  state: GamepadBridgeState = {
+    x: 0,
+    y: 0,
+    direction: "center",
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+    buttons: [],
+    isPhysicalConnected: false,
+    isOverlayVisible: true,
+  };
+  // output of the stick dead zone (reused on every poll)
+  stick = { x: 0, y: 0 };
+  // animation frame of the poll loop
+  frame: number = -1;
+  // controllers disabled while the overlay is hidden (controllers disabled by the app stay disabled)
+  hiddenControllers: (JoysickController | DpadController | ButtonController)[] =
+    [];
+  // reveal the overlay on touch
+  onTouch = (e: PointerEvent) => {
+    if (e.pointerType === "touch") this.setOverlayVisible(true);
+  };
+
+  /**
+   * Create a new Gamepad Bridge
+   */
+  constructor(options: GamepadBridgeOptions = {}) {
+    super();
+    this.joystick = options.joystick;
+    this.dpad = options.dpad;
+    this.buttons = options.buttons || {};
+    this.gamepadIndex = options.gamepadIndex;
+    this.deadZone = options.deadZone === undefined ? 0.15 : options.deadZone;
+    this.autoHide = options.autoHide === undefined ? true : options.autoHide;
+    this.getGamepads =
+      options.getGamepads ||
+      (() => (navigator.getGamepads ? navigator.getGamepads() : []));
+    this.verboseLogging = options.verboseLogging || false;
+  }
+
+  /**
+   * Log
+   */
+  log(message: string) {
+    if (this.verboseLogging) console.log(`[GamepadBridge] ${message}`);
+  }
+
+  /**
+   * Start
+   *
+   * Polls the gamepads on every animation frame and reveals the overlay on touch
+   */
+  start() {
+    if (this.frame !== -1) return;
+    window.addEventListener("pointerdown", this.onTouch, true);
+    const loop = () => {
+      this.poll();
+      this.frame = window.requestAnimationFrame(loop);
+    };
+    this.frame = window.requestAnimationFrame(loop);
+  }
+
+  /**
+   * Stop
+   *
+   * Stops polling the gamepads and revealing the overlay on touch
+   */
+  stop() {
+    if (this.frame !== -1) window.cancelAnimationFrame(this.frame);
+    this.frame = -1;
+    window.removeEventListener("pointerdown", this.onTouch, true);
+  }
+
+  /**
+   * Get State
+   *
+   * Returns the merged state of the last poll
+   */
+  getState() {
+    return this.state;
+  }
+
+  /**
+   * Find Gamepad
+   *
+   * Returns the physical gamepad that is bridged (virtual gamepads added by the shim are skipped)
+   */
+  findGamepad(): Gamepad | null {
+    const gamepads = this.getGamepads();
+    const isPhysical = (gamepad: Gamepad | null): gamepad is Gamepad =>
+      !!gamepad && gamepad.connected && !(gamepad instanceof VirtualGamepad);
+    if (this.gamepadIndex !== undefined) {
+      const gamepad = gamepads[this.gamepadIndex];
+      return isPhysical(gamepad) ? gamepad : null;
+    }
+    for (const gamepad of gamepads) {
+      if (isPhysical(gamepad)) return gamepad;
+    }
+    return null;
+  }
+
+  /**
+   * Set Overlay Visible
+   *
+   * Hides and disables or reveals and enables the on-screen controllers
+   */
+  setOverlayVisible(visible: boolean) {
+    if (this.state.isOverlayVisible === visible) return;
+    this.log(visible ? "Overlay revealed" : "Overlay hidden");
+    this.state.isOverlayVisible = visible;
+    if (visible) {
+      this.hiddenControllers.forEach((controller) => {
+        if (controller.isDestroyed) return;
+        controller.base.style.visibility = "";
+        controller.enable();
+      });
+      this.hiddenControllers = [];
+    } else {
+      const controllers = [
+        this.joystick,
+        this.dpad,
+        ...Object.values(this.buttons),
+      ];
+      controllers.forEach((controller) => {
+        if (!controller || controller.isDestroyed || !controller.isEnabled)
+          return;
+        controller.disable();
+        controller.base.style.visibility = "hidden";
+        this.hiddenControllers.push(controller);
+      });
+    }
+    this.emit("overlaychange", visible);
+  }
+
+  /**
+   * Poll
+   *
+   * Reads the physical gamepad and the on-screen controllers and updates the merged state
+   */
+  poll() {
+    const state = this.state;
+    const gamepad = this.findGamepad();
+
+    // connection changes
+    if (gamepad && !state.isPhysicalConnected) {
+      this.log(`Gamepad connected: ${gamepad.id}`);
+      state.isPhysicalConnected = true;
+      this.emit("connect", gamepad);
+      if (this.autoHide) this.setOverlayVisible(false);
+    } else if (!gamepad && state.isPhysicalConnected) {
+      this.log("Gamepad disconnected");
+      state.isPhysicalConnected = false;
+      this.emit("disconnect");
+      this.setOverlayVisible(true);
+    }
+
+    // physical input
+    let physicalActive = false;
+    const pressed = (index: number) =>
+      !!gamepad && !!gamepad.buttons[index] && gamepad.buttons[index].pressed;
+    this.stick.x = 0;
+    this.stick.y = 0;
+    if (gamepad && gamepad.axes.length >= 2) {
+      applyResponse(
+        gamepad.axes[0],
+        gamepad.axes[1],
+        { deadZone: this.deadZone },
+        this.stick
+      );
+      physicalActive = this.stick.x !== 0 || this.stick.y !== 0;
+    }
+
+    // stick: the on-screen joystick wins while it is held
+    let x = this.stick.x;
+    let y = this.stick.y;
+    if (this.joystick && this.joystick.isPressed) {
+      x = this.joystick.state.x;
+      y = this.joystick.state.y;
+    }
+    if (x !== state.x || y !== state.y) {
+      state.x = x;
+      state.y = y;
+      this.emit("move", x, y);
+    }
+
+    // d-pad
+    const dpadState = this.dpad ? this.dpad.getState() : undefined;
+    state.up = pressed(DPAD_UP) || !!dpadState?.up;
+    state.down = pressed(DPAD_DOWN) || !!dpadState?.down;
+    state.left = pressed(DPAD_LEFT) || !!dpadState?.left;
+    state.right = pressed(DPAD_RIGHT) || !!dpadState?.right;
+    const vertical = state.up ? "up" : state.down ? "down" : "";
+    const horizontal = state.left ? "left" : state.right ? "right" : "";
+    const direction = (
+      vertical && horizontal
+        ? `${vertical}-${horizontal}`
+        : vertical || horizontal || "center"
+    ) as DpadDirection;
+    if (direction !== state.direction) {
+      const previous = state.direction;
+      state.direction = direction;
+      this.emit("directionchange", direction, previous);
+    }
+
+    // buttons (the d-pad buttons include the on-screen D-pad)
+    const count = Math.max(
+      gamepad ? gamepad.buttons.length : 0,
+      this.dpad ? DPAD_RIGHT + 1 : 0,
+      ...Object.keys(this.buttons).map((index) => Number(index) + 1)
+    );
+    const dpadButtons = [state.up, state.down, state.left, state.right];
+    for (let index = 0; index < count; index++) {
+      const physical = pressed(index);
+      if (physical) physicalActive = true;
+      const button = this.buttons[index];
+      const isPressed =
+        physical ||
+        (!!button && button.isPressed) ||
+        (index >= DPAD_UP &&
+          index <= DPAD_RIGHT &&
+          dpadButtons[index - DPAD_UP]);
+      if (isPressed !== !!state.buttons[index]) {
+        state.buttons[index] = isPressed;
+        this.emit(isPressed ? "buttonpress" : "buttonrelease", index);
+      }
+    }
+
+    // hide the overlay again when the physical gamepad is used after a touch
+    if (physicalActive && this.autoHide) this.setOverlayVisible(false);
+
+    return state;
+  }
+
+  /**
+   * Destroy
+   *
+   * Stops polling, reveals the overlay and removes all listeners
+   */
+  destroy() {
+    this.stop();
+    this.setOverlayVisible(true);
+    this.off();
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Gestures 🎮 - Tap, double tap and swipe recognition of a held input
+ *
+ * Follows one input from the moment it goes down until it is released. An input that travels the swipe
+ * distance from where it went down is a swipe in the direction it travelled most. A short input that
+ * neither swiped nor was long pressed is a tap, and a second tap within the double tap window of the
+ * first makes a double tap. Single taps are reported once the double tap window has passed.
+ */
+
+// Direction of a swipe (screen directions, down is towards the bottom of the screen)
+export type SwipeDirection = "up" | "down" | "left" | "right";
+
+// Options for the Gestures
+export interface GestureOptions {
+  // time in ms after a tap in which a second tap makes a double tap (default: 300, 0 disables double taps)
+  doubleTapWindow?: number;
+  // distance in px the pointer travels from where it went down to swipe (default: 30, 0 disables swipes)
+  swipeDistance?: number;
+}
+
+// Callbacks of the Gestures
+export interface GestureCallbacks {
+  // a single tap that was held for duration ms
+  onTap?: (duration: number) => void;
+  // a second tap within the double tap window
+  onDoubleTap?: () => void;
+  // the pointer travelled the swipe distance
+  onSwipe?: (direction: SwipeDirection) => void;
+}
+
+/**
+ * Gestures
+ */
+export class Gestures {
+  // time in ms after a tap in which a second tap makes a double tap
+  doubleTapWindow: number;
+  // distance in px to swipe
+  swipeDistance: number;
+  // callbacks
+  callbacks: GestureCallbacks;
+  // true while an input is followed
+  isActive: boolean = false;
+  // point where the pointer went down (null for inputs without a pointer, they can not swipe)
+  origin: { x: number; y: number } | null = null;
+  // true once the input swiped
+  swiped: boolean = false;
+  // true if the input went down within the double tap window of a tap
+  secondTap: boolean = false;
+  // timer of the pending single tap
+  tapTimer: number = -1;
+
+  /**
+   * Create new Gestures
+   */
+  constructor(callbacks: GestureCallbacks, options: GestureOptions = {}) {
+    this.callbacks = callbacks;
+    this.doubleTapWindow =
+      options.doubleTapWindow === undefined ? 300 : options.doubleTapWindow;
+    this.swipeDistance =
+      options.swipeDistance === undefined ? 30 : options.swipeDistance;
+  }
+
+  /**
+   * Start
+   *
+   * Follows a new input, at the position of its pointer if it has one. An input that goes down while a
+   * single tap is pending takes the tap, it is reported as a double tap if it is a tap as well.
+   */
+  start(clientX?: number, clientY?: number) {
+    this.isActive = true;
+    this.origin =
+      clientX === undefined || clientY === undefined
+        ? null
+        : { x: clientX, y: clientY };
+    this.swiped = false;
+    this.secondTap = this.tapTimer !== -1;
+    this.clearTap();
+  }
+
+  /**
+   * Can Swipe
+   *
+   * True while the input may still become a swipe
+   */
+  get canSwipe() {
+    return (
+      this.isActive && !!this.origin && !this.swiped && this.swipeDistance > 0
+    );
+  }
+
+  /**
+   * Move
+   *
+   * Recognizes a swipe once the pointer has travelled the swipe distance
+   */
+  move(clientX: number, clientY: number) {
+    if (!this.canSwipe || !this.origin) return;
+    const dx = clientX - this.origin.x;
+    const dy = clientY - this.origin.y;
+    if (Math.hypot(dx, dy) < this.swipeDistance) return;
+    this.swiped = true;
+    this.callbacks.onSwipe?.(
+      Math.abs(dx) > Math.abs(dy)
+        ? dx > 0
+          ? "right"
+          : "left"
+        : dy > 0
+        ? "down"
+        : "up"
+    );
+  }
+
+  /**
+   * End
+   *
+   * Ends the input after it was held for duration ms, an input that swiped or was long pressed is no tap
+   */
+  end(duration: number, longPressed: boolean) {
+    if (!this.isActive) return;
+    this.isActive = false;
+    if (this.swiped || longPressed) return;
+    if (this.secondTap) {
+      this.callbacks.onDoubleTap?.();
+    } else if (this.doubleTapWindow <= 0) {
+      this.callbacks.onTap?.(duration);
+    } else {
+      this.tapTimer = window.setTimeout(() => {
+        this.tapTimer = -1;
+        this.callbacks.onTap?.(duration);
+      }, this.doubleTapWindow);
+    }
+  }
+
+  /**
+   * Leave
+   *
+   * The pointer slid out of the input or was cancelled (without a position), it swipes if it travelled
+   * far enough and is no tap
+   */
+  leave(clientX?: number, clientY?: number) {
+    if (clientX !== undefined && clientY !== undefined)
+      this.move(clientX, clientY);
+    this.isActive = false;
+  }
+
+  /**
+   * Cancel
+   *
+   * Stops following the input and drops a pending tap without reporting it
+   */
+  cancel() {
+    this.isActive = false;
+    this.clearTap();
+  }
+
+  /**
+   * Clear Tap
+   */
+  private clearTap() {
+    if (this.tapTimer !== -1) window.clearTimeout(this.tapTimer);
+    this.tapTimer = -1;
+  }
+}
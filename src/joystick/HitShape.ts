@@ -0,0 +1,262 @@
+/**
+ * Hit Shape 🎮 - Hit-test controllers by the shape they draw
+ *
+ * A hit shape describes the region of a controller that accepts touches: its bounding box, the circle or
+ * rounded rect it is drawn as, a polygon or an SVG path. A padding margin in px grows the region, so
+ * touches slightly outside a small control still register (fat-finger tolerance).
+ */
+
+// Shape types
+// rect - the bounding box of the control
+// circle - the circle (or ellipse) inscribed in the box
+// rounded-rect - the box with rounded corners (radius in px, default: the border radius of the control)
+// polygon - a polygon of points in the view box
+// path - an SVG path in the view box
+export type HitShapeType =
+  | "rect"
+  | "circle"
+  | "rounded-rect"
+  | "polygon"
+  | "path";
+const hitShapeTypes: HitShapeType[] = [
+  "rect",
+  "circle",
+  "rounded-rect",
+  "polygon",
+  "path",
+];
+
+// View box of polygon and path coordinates: [minX, minY, width, height] mapped onto the box of the control
+export type HitViewBox = [number, number, number, number];
+
+// Hit region of a controller
+export interface HitShape {
+  type: HitShapeType;
+  // margin around the shape in px (default: 0)
+  padding?: number;
+  // corner radius in px of a rounded-rect
+  radius?: number;
+  // points of a polygon
+  points?: [number, number][];
+  // path data of a path
+  d?: string;
+  // view box of the points / path data (default: [0, 0, 1, 1], fractions of the box)
+  viewBox?: HitViewBox;
+}
+
+// Canvas context used to hit-test paths (created with the first path test)
+let pathContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Resolve Hit Shape
+ *
+ * Expands a shape type to a shape and validates it. A path without path data takes the path of the
+ * control (the D-pad arms), if it has one.
+ */
+export function resolveHitShape(
+  shape: HitShapeType | HitShape | undefined,
+  fallback: HitShapeType,
+  controlPath?: { d: string; viewBox: HitViewBox }
+): HitShape {
+  const resolved: HitShape =
+    typeof shape === "string"
+      ? { type: shape }
+      : { ...(shape || { type: fallback }) };
+  if (!hitShapeTypes.includes(resolved.type)) {
+    throw new Error(
+      `Unknown hit shape "${
+        resolved.type
+      }", expected one of ${hitShapeTypes.join(", ")}!`
+    );
+  }
+  if (resolved.padding !== undefined && !(resolved.padding >= 0)) {
+    throw new Error("Hit shape padding must be a positive number of px!");
+  }
+  if (
+    resolved.type === "polygon" &&
+    (!resolved.points || resolved.points.length < 3)
+  ) {
+    throw new Error("Hit shape polygon needs at least 3 points!");
+  }
+  if (resolved.type === "path" && !resolved.d) {
+    if (!controlPath) throw new Error("Hit shape path needs path data (d)!");
+    resolved.d = controlPath.d;
+    resolved.viewBox = resolved.viewBox || controlPath.viewBox;
+  }
+  if (
+    resolved.viewBox &&
+    (resolved.viewBox.length !== 4 ||
+      !(resolved.viewBox[2] > 0) ||
+      !(resolved.viewBox[3] > 0))
+  ) {
+    throw new Error(
+      "Hit shape viewBox must be [minX, minY, width, height] with a positive size!"
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Inside Rounded Rect
+ *
+ * True if a point is within padding of a rounded rect (signed distance of the rounded box)
+ */
+function insideRoundedRect(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+  padding: number
+) {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  const qx = Math.abs(x - width / 2) - (width / 2 - r);
+  const qy = Math.abs(y - height / 2) - (height / 2 - r);
+  const distance =
+    Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) +
+    Math.min(Math.max(qx, qy), 0) -
+    r;
+  return distance <= padding;
+}
+
+/**
+ * Inside Polygon
+ *
+ * True if a point is inside a polygon (ray casting) or within padding of one of its edges
+ */
+function insidePolygon(
+  x: number,
+  y: number,
+  points: [number, number][],
+  padding: number
+) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+    if (padding > 0) {
+      // distance to the edge
+      const dx = xj - xi;
+      const dy = yj - yi;
+      const t = Math.max(
+        0,
+        Math.min(1, ((x - xi) * dx + (y - yi) * dy) / (dx * dx + dy * dy || 1))
+      );
+      if (Math.hypot(x - (xi + t * dx), y - (yi + t * dy)) <= padding) {
+        return true;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Corner Radius
+ *
+ * Border radius of an element in px (percentages are taken of the smaller side)
+ */
+function cornerRadius(element: Element, width: number, height: number) {
+  const radius = getComputedStyle(element).borderTopLeftRadius || "0";
+  const value = parseFloat(radius) || 0;
+  return radius.trim().endsWith("%")
+    ? (value / 100) * Math.min(width, height)
+    : value;
+}
+
+/**
+ * Hit Test Shape
+ *
+ * True if a point (client coordinates) hits the shape drawn on an element rotated by rotate degrees
+ * around its center
+ */
+export function hitTestShape(
+  shape: HitShape,
+  element: HTMLElement | SVGElement,
+  rotate: number,
+  clientX: number,
+  clientY: number
+) {
+  const rect = element.getBoundingClientRect();
+  // unrotated size of the element (the bounding rect grows with the rotation)
+  const width =
+    (element instanceof HTMLElement
+      ? element.offsetWidth
+      : element.clientWidth) || rect.width;
+  const height =
+    (element instanceof HTMLElement
+      ? element.offsetHeight
+      : element.clientHeight) || rect.height;
+
+  // point in the unrotated box of the element
+  let x = clientX - (rect.left + rect.width / 2);
+  let y = clientY - (rect.top + rect.height / 2);
+  if (rotate) {
+    const angle = (-rotate * Math.PI) / 180;
+    const rotatedX = x * Math.cos(angle) - y * Math.sin(angle);
+    const rotatedY = x * Math.sin(angle) + y * Math.cos(angle);
+    x = rotatedX;
+    y = rotatedY;
+  }
+  x += width / 2;
+  y += height / 2;
+
+  const padding = shape.padding || 0;
+  const [minX, minY, viewWidth, viewHeight] = shape.viewBox || [0, 0, 1, 1];
+  switch (shape.type) {
+    case "circle": {
+      const dx = (x - width / 2) / (width / 2 + padding);
+      const dy = (y - height / 2) / (height / 2 + padding);
+      return dx * dx + dy * dy <= 1;
+    }
+    case "rounded-rect":
+      return insideRoundedRect(
+        x,
+        y,
+        width,
+        height,
+        shape.radius === undefined
+          ? cornerRadius(element, width, height)
+          : shape.radius,
+        padding
+      );
+    case "polygon":
+      return insidePolygon(
+        x,
+        y,
+        shape.points!.map(([px, py]) => [
+          ((px - minX) / viewWidth) * width,
+          ((py - minY) / viewHeight) * height,
+        ]),
+        padding
+      );
+    case "path": {
+      if (pathContext === undefined) {
+        pathContext =
+          typeof Path2D === "undefined"
+            ? null
+            : document.createElement("canvas").getContext("2d");
+      }
+      // without canvas support the box is used
+      if (!pathContext) break;
+      const path = new Path2D(shape.d);
+      const scaleX = viewWidth / width;
+      const scaleY = viewHeight / height;
+      const pathX = minX + x * scaleX;
+      const pathY = minY + y * scaleY;
+      if (pathContext.isPointInPath(path, pathX, pathY)) return true;
+      if (padding <= 0) return false;
+      pathContext.lineWidth = padding * (scaleX + scaleY);
+      return pathContext.isPointInStroke(path, pathX, pathY);
+    }
+  }
+  // rect
+  return (
+    x >= -padding &&
+    x <= width + padding &&
+    y >= -padding &&
+    y <= height + padding
+  );
+}
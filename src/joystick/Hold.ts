@@ -0,0 +1,203 @@
+/**
+ * Hold 🎮 - Analog value, long press and charge levels of a held input
+ *
+ * Tracks how long an input is held. The analog value follows the pointer pressure where the hardware
+ * reports it and otherwise ramps from 0 to 1 over the ramp duration. Long press and charge level callbacks
+ * fire when the hold duration crosses their thresholds. The hold is only checked on every animation frame
+ * when there is an analog value, a long press or charge levels to track.
+ */
+
+// Options for the Hold
+export interface HoldOptions {
+  // track the analog value (default: false)
+  analog?: boolean;
+  // time in ms for the value to ramp from 0 to 1 when there is no pressure (default: 300)
+  rampDuration?: number;
+  // hold time in ms of a long press (default: none)
+  longPressDuration?: number;
+  // hold times in ms of the charge levels, level n is reached after chargeLevels[n - 1] (default: none)
+  chargeLevels?: number[];
+}
+
+// Callbacks of the Hold
+export interface HoldCallbacks {
+  // the analog value (0 - 1) changed
+  onValue?: (value: number) => void;
+  // the input was held for the long press duration
+  onLongPress?: (duration: number) => void;
+  // a charge level was reached
+  onCharge?: (level: number, duration: number) => void;
+}
+
+/**
+ * Validate Charge Levels
+ *
+ * Charge levels must be positive and ascending
+ */
+export function validateChargeLevels(levels: number[]) {
+  levels.forEach((level, index) => {
+    if (!(level > 0) || (index > 0 && level <= levels[index - 1])) {
+      throw new Error(
+        "Charge levels must be positive hold times in ascending order!"
+      );
+    }
+  });
+}
+
+/**
+ * Hold
+ */
+export class Hold {
+  // track the analog value
+  analog: boolean;
+  // time in ms for the value to ramp from 0 to 1
+  rampDuration: number;
+  // hold time in ms of a long press (undefined: no long press)
+  longPressDuration?: number;
+  // hold times in ms of the charge levels
+  chargeLevels: number[];
+  // callbacks
+  callbacks: HoldCallbacks;
+  // start time of the hold (-1 while not held)
+  startTime: number = -1;
+  // last reported pressure (-1 if the hardware reports none)
+  pressure: number = -1;
+  // analog value (0 - 1)
+  value: number = 0;
+  // charge level reached
+  level: number = 0;
+  // true once the long press fired
+  longPressed: boolean = false;
+  // animation frame
+  frame: number = -1;
+
+  /**
+   * Create a new Hold
+   */
+  constructor(callbacks: HoldCallbacks, options: HoldOptions = {}) {
+    this.callbacks = callbacks;
+    this.analog = options.analog || false;
+    this.rampDuration =
+      options.rampDuration === undefined ? 300 : options.rampDuration;
+    this.longPressDuration = options.longPressDuration;
+    this.chargeLevels = options.chargeLevels || [];
+    validateChargeLevels(this.chargeLevels);
+  }
+
+  /**
+   * Is Held
+   */
+  get isHeld() {
+    return this.startTime !== -1;
+  }
+
+  /**
+   * Duration
+   *
+   * Time in ms the input has been held (0 while not held)
+   */
+  get duration() {
+    return this.isHeld ? performance.now() - this.startTime : 0;
+  }
+
+  /**
+   * Start
+   *
+   * (Re)starts the hold, with the pressure of the pointer if it has one
+   */
+  start(pressure?: number) {
+    this.stop();
+    this.startTime = performance.now();
+    this.setPressure(pressure);
+    this.tick();
+    // plain holds only need their duration, they are not checked every frame
+    if (
+      !this.analog &&
+      this.longPressDuration === undefined &&
+      this.chargeLevels.length === 0
+    )
+      return;
+    const loop = () => {
+      this.tick();
+      this.frame = window.requestAnimationFrame(loop);
+    };
+    this.frame = window.requestAnimationFrame(loop);
+  }
+
+  /**
+   * Set Pressure
+   *
+   * Uses the pointer pressure as the value. Hardware without pressure reports 0.5 (or 0) for every
+   * pressed pointer, so those values keep the ramp.
+   */
+  setPressure(pressure?: number) {
+    if (pressure !== undefined && pressure > 0 && pressure !== 0.5) {
+      this.pressure = pressure;
+    }
+  }
+
+  /**
+   * Tick
+   *
+   * Updates the value and fires the long press and charge level callbacks
+   */
+  tick() {
+    if (!this.isHeld) return;
+    const duration = this.duration;
+
+    // analog value from the pressure or the ramp
+    if (this.analog) {
+      const value = Number(
+        (this.pressure >= 0
+          ? Math.min(1, this.pressure)
+          : this.rampDuration > 0
+          ? Math.min(1, duration / this.rampDuration)
+          : 1
+        ).toFixed(2)
+      );
+      if (value !== this.value) {
+        this.value = value;
+        this.callbacks.onValue?.(value);
+      }
+    }
+
+    // long press
+    if (
+      !this.longPressed &&
+      this.longPressDuration !== undefined &&
+      duration >= this.longPressDuration
+    ) {
+      this.longPressed = true;
+      this.callbacks.onLongPress?.(duration);
+    }
+
+    // charge levels
+    while (
+      this.level < this.chargeLevels.length &&
+      duration >= this.chargeLevels[this.level]
+    ) {
+      this.level++;
+      this.callbacks.onCharge?.(this.level, duration);
+    }
+  }
+
+  /**
+   * Stop
+   *
+   * Stops the hold and returns its duration and the charge level it reached
+   */
+  stop() {
+    const result = { duration: this.duration, level: this.level };
+    if (this.frame !== -1) window.cancelAnimationFrame(this.frame);
+    this.frame = -1;
+    this.startTime = -1;
+    this.pressure = -1;
+    this.level = 0;
+    this.longPressed = false;
+    if (this.value !== 0) {
+      this.value = 0;
+      this.callbacks.onValue?.(0);
+    }
+    return result;
+  }
+}
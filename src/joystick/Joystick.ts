@@ -4,8 +4,81 @@
  * Joysick Controller
  */
 
+import { AnchorOptions } from "./Anchor";
+import { BaseController, definedOptions } from "./BaseController";
+import { DpadDirection } from "./Dpad";
+import { HitShape, HitShapeType, resolveHitShape } from "./HitShape";
+import {
+  applyResponse,
+  DeadZoneMode,
+  ResponseCurve,
+  ResponseOptions,
+  validateResponseOptions,
+} from "./Response";
+import { applyTheme, resolveTheme, Theme, ThemeName, themeVar } from "./Theme";
+
+// Joystick Controller Events
+export type JoysickControllerEvents = {
+  // start - the joystick was pressed
+  start: () => void;
+  // move - the joystick thumb moved, x and y are in the range [-1, 1]
+  move: (x: number, y: number) => void;
+  // end - the joystick was released
+  end: () => void;
+  // directionchange - the direction of the joystick changed
+  directionchange: (direction: DpadDirection, previous: DpadDirection) => void;
+};
+
+// Joystick Controller State
+export interface JoysickControllerState {
+  // x - horizontal input in the range [-1, 1]
+  x: number;
+  // y - vertical input in the range [-1, 1] (down is positive)
+  y: number;
+  // angle - angle of the input in degrees counter-clockwise from the right (-180 to 180)
+  angle: number;
+  // magnitude - distance of the input from the center in the range [0, 1]
+  magnitude: number;
+  // direction - direction of the input using the D-pad direction names
+  direction: DpadDirection;
+  // isPressed - true while the joystick is held
+  isPressed: boolean;
+}
+
+// Joystick Mode
+// static - the joystick stays at top / left
+// dynamic - the joystick spawns under the first touch in the activation zone
+// follow - like dynamic, and the base is dragged along when the thumb exceeds its max distance
+export type JoysickMode = "static" | "dynamic" | "follow";
+
+// Activation Zone - a rectangle in px relative to the container
+export interface JoysickActivationRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// Joystick Axis - lock the joystick to a single axis
+export type JoysickAxis = "x" | "y" | "both";
+
+// Directions in 45° sectors counter-clockwise from the right
+const directions: DpadDirection[] = [
+  "right",
+  "up-right",
+  "up",
+  "up-left",
+  "left",
+  "down-left",
+  "down",
+  "down-right",
+];
+
 // Joystick Controller Options
-interface JoysickControllerOptions {
+// (dead zones and the response curve are configured through ResponseOptions)
+export interface JoysickControllerOptions
+  extends ResponseOptions,
+    AnchorOptions {
   // uid - unique id to uniquely identify the joystick controller (default: random string)
   uid?: string;
   // conatiner - the container where to store the joystick (default: body)
@@ -22,16 +95,41 @@ interface JoysickControllerOptions {
   color?: string;
   // thumbColor - the color of the joystick thumb (default: #333)
   thumbColor?: string;
-  // onInputCallback - callback triggered when the joystick is moved
+  // mode - static, dynamic or follow (default: static)
+  mode?: JoysickMode;
+  // activationZone - where a touch spawns the joystick in dynamic / follow mode (default: the container)
+  activationZone?: HTMLElement | JoysickActivationRect;
+  // releaseBehavior - hide the base or return it to top / left when released in dynamic / follow mode (default: hide)
+  releaseBehavior?: "hide" | "return";
+  // axis - lock the joystick to the x or y axis (default: both)
+  axis?: JoysickAxis;
+  // snap - quantize the output to 4, 8 or any number of directions (default: 0, no snapping)
+  snap?: number;
+  // theme - a built-in theme name or theme properties (default: the theme inherited from the container)
+  theme?: ThemeName | Theme;
+  // hitShape - region of the base that accepts touches in static mode, with an optional padding (default: circle)
+  hitShape?: HitShapeType | HitShape;
+  // onInputCallback - callback triggered when the joystick is moved (subscribed to the "move" event)
   onInputCallback?: (x: number, y: number) => void;
   // verbose logging (default: false)
   verboseLogging?: boolean;
 }
 
+// Options that can be changed with update() (mode and activation zone are fixed at construction)
+type JoysickControllerUpdateOptions = Partial<
+  Omit<
+    JoysickControllerOptions,
+    "uid" | "container" | "mode" | "activationZone" | "onInputCallback"
+  >
+>;
+
 /**
  * The Joysick Controller
  */
-export class JoysickController {
+export class JoysickController extends BaseController<
+  JoysickControllerEvents,
+  JoysickControllerState
+> {
   uid: string;
   top: string;
   left: string;
@@ -39,8 +137,6 @@ export class JoysickController {
   radius: number;
   color: string;
   thumbColor: string;
-  // callbacks
-  onInputCallback: (x: number, y: number) => void;
   // variables
   isPressed: boolean;
   container: HTMLElement;
@@ -49,11 +145,35 @@ export class JoysickController {
   baseThumb: HTMLDivElement;
   baseRect: DOMRect | undefined;
   thumbMaxDistance: number;
+  // dynamic / follow mode
+  mode: JoysickMode;
+  activationZone: HTMLElement | JoysickActivationRect;
+  releaseBehavior: "hide" | "return";
+  // axis locking and snapping
+  axis: JoysickAxis;
+  snap: number;
+  // dead zones and response curve
+  deadZone: number;
+  outerDeadZone: number;
+  deadZoneMode: DeadZoneMode;
+  responseCurve: ResponseCurve;
+  responseFactor: number;
+  // output of the response mapping (reused on every move)
+  output = { x: 0, y: 0 };
+  state: JoysickControllerState = {
+    x: 0,
+    y: 0,
+    angle: 0,
+    magnitude: 0,
+    direction: "center",
+    isPressed: false,
+  };
 
   /**
    * Create a New JoysickController
    */
   constructor(options: JoysickControllerOptions) {
+    super();
     // unique id
     this.uid = options.uid || Math.random().toString(36).substring(7);
     // container
@@ -69,13 +189,34 @@ export class JoysickController {
     this.color = options.color || "#CCC";
     // color of the thumb
     this.thumbColor = options.thumbColor || "#333";
+    // theme (the colors given as options are scoped to this joystick)
+    this.theme = resolveTheme(options.theme, {
+      color: options.color,
+      accentColor: options.thumbColor,
+    });
+
+    // mode
+    this.mode = options.mode || "static";
+    this.activationZone = options.activationZone || this.container;
+    this.releaseBehavior = options.releaseBehavior || "hide";
+    // the activation zone is hit after the other controllers in it
+    this.pointerPriority = this.mode === "static" ? 0 : -1;
+    this.hitShape = resolveHitShape(options.hitShape, "circle");
+
+    // axis locking and snapping
+    this.axis = options.axis || "both";
+    this.snap = options.snap || 0;
 
     // callbacks
-    this.onInputCallback =
-      options.onInputCallback ||
-      ((x: number, y: number) => {
-        console.log(`[JoysickController:${this.uid}] input: x: ${x}, y: ${y}`);
-      });
+    if (options.onInputCallback) this.on("move", options.onInputCallback);
+    // dead zones and response curve
+    validateResponseOptions(options);
+    this.deadZone = options.deadZone || 0;
+    this.outerDeadZone = options.outerDeadZone || 0;
+    this.deadZoneMode = options.deadZoneMode || "radial";
+    this.responseCurve = options.responseCurve || "linear";
+    this.responseFactor =
+      options.responseFactor === undefined ? 3 : options.responseFactor;
     // verbose logging
     this.verboseLogging = options.verboseLogging || false;
     this.thumbMaxDistance = 0;
@@ -88,6 +229,9 @@ export class JoysickController {
     this.baseThumb.id = `ts-dpad-${this.uid}-thumb`;
     this.base.appendChild(this.baseThumb);
 
+    // anchor (replaces top / left)
+    this.setAnchor(options);
+
     // init
     this.init();
   }
@@ -116,15 +260,17 @@ export class JoysickController {
     // render
     this.render();
 
-    // add event handlers
-    this.base.addEventListener("pointerup", (e) => this.onJoysickUp(e));
-    this.base.addEventListener("pointercancel", (e) => this.onJoysickUp(e));
-    this.base.addEventListener("pointerdown", (e) => this.onJoysickDown(e));
-    this.base.addEventListener("pointermove", (e) => this.onJoysickMove(e));
+    // add event handlers (pointers are assigned by the pointer manager)
+    this.trackPointers();
 
     // resize
-    window.addEventListener("resize", this.updateContainerRectangle.bind(this));
+    this.listen(window, "resize", () => this.updateContainerRectangle());
     this.updateContainerRectangle();
+
+    // hide until the first touch
+    if (this.mode !== "static" && this.releaseBehavior === "hide") {
+      this.base.style.opacity = "0";
+    }
   }
 
   /**
@@ -136,25 +282,35 @@ export class JoysickController {
     this.base.style.cssText = `
         width: ${this.radius}px;
         height: ${this.radius}px;
-        background-color: ${this.color};
+        background-color: ${themeVar("color", this.color)};
+        border: ${themeVar("borderWidth", "0px")} solid ${themeVar(
+      "borderColor",
+      "transparent"
+    )};
+        box-sizing: border-box;
         border-radius: 50%;
         position: absolute;
         top: ${this.top};
         left: ${this.left};
-        transform: translate(-50%, -50%) rotate(${this.rotate}deg); // Apply rotation
+        transform: translate(-50%, -50%) rotate(${
+          this.rotate
+        }deg); /* Apply rotation */
         touch-action: none;
         z-index: 1000;
-        opacity: 0.7;
+        opacity: ${themeVar("opacity", "0.7")};
         transition: opacity 0.3s linear;
         /* Glassmorphic effect */
-        backdrop-filter: blur(6px);
-        box-shadow: 0 8px 32px 0 ${this.color}60, inset 0 0 0 1px #FFFFFF2E;
+        backdrop-filter: ${themeVar("backdropFilter", "blur(6px)")};
+        box-shadow: ${themeVar(
+          "shadow",
+          `0 8px 32px 0 ${this.color}60, inset 0 0 0 1px #FFFFFF2E`
+        )};
         user-select: none;
     `;
     this.baseThumb.style.cssText = `
         width: ${this.radius / 2.5}px;
         height: ${this.radius / 2.5}px;
-        background-color: ${this.thumbColor};
+        background-color: ${themeVar("accentColor", this.thumbColor)};
         border-radius: 50%;
         position: absolute;
         top: 50%;
@@ -166,7 +322,44 @@ export class JoysickController {
         box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
         user-select: none;
     `;
-    this.container.appendChild(this.base);
+    applyTheme(this.base, this.theme);
+    if (this.base.parentNode !== this.container)
+      this.container.appendChild(this.base);
+  }
+
+  /**
+   * Update
+   *
+   * Changes options after construction and renders the joystick again, a held thumb is kept
+   */
+  update(options: JoysickControllerUpdateOptions) {
+    const { theme, anchor, offsetX, offsetY, safeArea, hitShape, ...changes } =
+      definedOptions(options);
+    if (hitShape !== undefined)
+      this.hitShape = resolveHitShape(hitShape, "circle");
+    validateResponseOptions({
+      deadZone: this.deadZone,
+      outerDeadZone: this.outerDeadZone,
+      ...changes,
+    });
+    Object.assign(this, changes);
+    this.theme = resolveTheme(theme || this.theme, {
+      color: options.color,
+      accentColor: options.thumbColor,
+    });
+    this.updateAnchor(options);
+
+    // keep the input state: the opacity, the thumb and a spawned base
+    const { opacity, top, left } = this.base.style;
+    const thumb = this.baseThumb.style.transform;
+    this.render();
+    this.base.style.opacity = opacity;
+    this.baseThumb.style.transform = thumb;
+    if (this.mode !== "static" && this.isPressed) {
+      this.base.style.top = top;
+      this.base.style.left = left;
+    }
+    this.updateContainerRectangle();
   }
 
   /**
@@ -174,6 +367,18 @@ export class JoysickController {
    */
   updateUI() {}
 
+  /**
+   * Move Base
+   *
+   * Moves the center of the base to a client position (dynamic / follow mode)
+   */
+  moveBase(clientX: number, clientY: number) {
+    const containerRect = this.container.getBoundingClientRect();
+    this.base.style.left = `${clientX - containerRect.left}px`;
+    this.base.style.top = `${clientY - containerRect.top}px`;
+    this.updateContainerRectangle();
+  }
+
   /**
    * Update Container Rectangle
    *
@@ -191,22 +396,138 @@ export class JoysickController {
     this.thumbMaxDistance = (this.radius - this.baseThumb.offsetWidth) / 1.5;
   }
 
+  /**
+   * Anchor Box
+   *
+   * The base is centered on top / left
+   */
+  anchorBox() {
+    const size = `${this.radius}px`;
+    return { width: size, height: size, centered: true };
+  }
+
+  /**
+   * Get State
+   *
+   * Returns the current joystick input
+   */
+  getState() {
+    this.state.isPressed = this.isPressed;
+    return this.state;
+  }
+
+  /**
+   * Update State
+   *
+   * The angle in degrees defaults to the angle of x and y, a snapped input passes the angle of its snap
+   * direction so the direction always names that snap direction
+   */
+  updateState(
+    x: number,
+    y: number,
+    angle = (Math.atan2(-y, x) * 180) / Math.PI
+  ) {
+    this.state.x = x;
+    this.state.y = y;
+    this.state.angle = angle;
+    this.state.magnitude = Math.min(1, Math.hypot(x, y));
+
+    // direction using the D-pad 8-way sectors
+    const previous = this.state.direction;
+    this.state.direction =
+      x === 0 && y === 0
+        ? "center"
+        : directions[Math.round((this.state.angle + 360) / 45) % 8];
+    if (this.state.direction !== previous) {
+      this.emit("directionchange", this.state.direction, previous);
+    }
+  }
+
+  /**
+   * Release
+   *
+   * Returns the thumb to the center of the joystick
+   */
+  release() {
+    const wasPressed = this.isPressed;
+    this.isPressed = false;
+    this.baseThumb.style.transform = `translate(-50%, -50%)`;
+    this.base.style.opacity = themeVar("opacity", "0.7");
+    // hide or return the base in dynamic / follow mode
+    if (this.mode !== "static") {
+      if (this.releaseBehavior === "hide") {
+        this.base.style.opacity = "0";
+      } else {
+        this.base.style.top = this.top;
+        this.base.style.left = this.left;
+      }
+    }
+    this.updateState(0, 0);
+    if (wasPressed) this.emit("end");
+  }
+
   // ***<< EVENT HANDLERS >>***
 
+  /**
+   * Hit Test
+   *
+   * A static joystick is hit on its base, a dynamic / follow joystick anywhere in its activation zone
+   */
+  hitTest(clientX: number, clientY: number) {
+    if (this.mode === "static") return super.hitTest(clientX, clientY);
+    if (this.activationZone instanceof HTMLElement) {
+      const zone = this.activationZone.getBoundingClientRect();
+      return (
+        clientX >= zone.left &&
+        clientX <= zone.right &&
+        clientY >= zone.top &&
+        clientY <= zone.bottom
+      );
+    }
+    // the activation rect is relative to the container
+    const containerRect = this.container.getBoundingClientRect();
+    const x = clientX - containerRect.left;
+    const y = clientY - containerRect.top;
+    const zone = this.activationZone;
+    return (
+      x >= zone.left &&
+      x <= zone.left + zone.width &&
+      y >= zone.top &&
+      y <= zone.top + zone.height
+    );
+  }
+
+  /**
+   * Pointer Down / Move / Up
+   *
+   * Called by the pointer manager for the pointer assigned to the joystick
+   */
+  pointerDown(e: PointerEvent) {
+    if (this.mode === "static") this.onJoysickDown(e);
+    else this.onZoneDown(e);
+  }
+
+  pointerMove(e: PointerEvent) {
+    this.onJoysickMove(e);
+  }
+
+  pointerUp(e: PointerEvent) {
+    this.onJoysickUp(e);
+  }
+
   /**
    * Joysick Up
    *
    * This Event is Triggered when the joystick thumb is released
    */
   onJoysickUp(e: PointerEvent) {
+    if (!this.isEnabled) return;
     // log
     this.log("Joysick Released");
 
     // change is pressed
     e.preventDefault();
-    this.isPressed = false;
-    this.baseThumb.style.transform = `translate(-50%, -50%)`;
-    this.base.style.opacity = "0.7";
+    this.release();
   }
 
   /**
@@ -215,29 +536,43 @@ export class JoysickController {
    * This event is triggered when the joystick is pressed
    */
   onJoysickDown(e: PointerEvent) {
+    if (!this.isEnabled) return;
     // log
     this.log("Joysick Pressed");
 
     // change is pressed
     e.preventDefault();
     this.isPressed = true;
-    this.base.setPointerCapture(e.pointerId);
-    this.base.style.opacity = "1";
+    this.base.style.opacity = themeVar("activeOpacity", "1");
 
     // update container rectangle
     this.updateContainerRectangle();
+    this.emit("start");
 
     // forward to pointer move
     this.onJoysickMove(e);
   }
 
+  /**
+   * Activation Zone Down
+   *
+   * This event is triggered when the activation zone is pressed in dynamic / follow mode (see hitTest)
+   */
+  onZoneDown(e: PointerEvent) {
+    if (!this.isEnabled || this.isPressed) return;
+    this.log("Joysick Spawned");
+    // spawn the base under the touch
+    this.moveBase(e.clientX, e.clientY);
+    this.onJoysickDown(e);
+  }
+
   /**
    * Pointer Move
    *
    * This Event is triggered when the joystick thumb is moved
    */
   onJoysickMove(e: PointerEvent) {
-    if (!this.isPressed) return;
+    if (!this.isEnabled || !this.isPressed) return;
     // log
     this.log("Joystick Moved");
 
@@ -252,6 +587,12 @@ export class JoysickController {
     // calculate distance from center
     const distance = Math.hypot(x, y);
 
+    // drag the base along in follow mode
+    if (this.mode === "follow" && distance > this.thumbMaxDistance) {
+      const excess = (distance - this.thumbMaxDistance) / distance;
+      this.moveBase(baseCenterX + x * excess, baseCenterY + y * excess);
+    }
+
     // clamp x and y
     if (distance > this.thumbMaxDistance) {
       x *= this.thumbMaxDistance / distance;
@@ -267,16 +608,38 @@ export class JoysickController {
       y = rotatedY;
     }
 
+    // lock to a single axis
+    if (this.axis === "x") y = 0;
+    else if (this.axis === "y") x = 0;
+
     // update ui so that the thumb moves around the center radius of max distance (calc to subtract its own width and height)
     this.baseThumb.style.transform = `translate(calc(-50% + ${x}px), calc(-50% + ${y}px))`;
 
     // clamp values between -1 and 1
-    x = Number(Math.max(-1, Math.min(1, x / this.thumbMaxDistance)).toFixed(2));
-    y = Number(Math.max(-1, Math.min(1, y / this.thumbMaxDistance)).toFixed(2));
-
-    // call the callback
-    if (this.onInputCallback) {
-      this.onInputCallback(x, y);
+    x = Math.max(-1, Math.min(1, x / this.thumbMaxDistance));
+    y = Math.max(-1, Math.min(1, y / this.thumbMaxDistance));
+
+    // apply dead zones and the response curve
+    applyResponse(x, y, this, this.output);
+    x = this.output.x;
+    y = this.output.y;
+
+    // snap to the nearest of the snap directions
+    let angle: number | undefined;
+    if (this.snap > 0 && (x !== 0 || y !== 0)) {
+      const sector = (2 * Math.PI) / this.snap;
+      const snapped = Math.round(Math.atan2(-y, x) / sector) * sector;
+      const magnitude = Math.hypot(x, y);
+      x = magnitude * Math.cos(snapped);
+      y = -magnitude * Math.sin(snapped);
+      angle = (snapped * 180) / Math.PI;
     }
+    x = Number(x.toFixed(2));
+    y = Number(y.toFixed(2));
+
+    // emit the input
+    this.updateState(x, y, angle);
+    this.log(`input: x: ${x}, y: ${y}`);
+    this.emit("move", x, y);
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * Key Repeat 🎮 - Auto-repeat for held inputs
+ *
+ * Calls a callback again after an initial delay and then at a fixed interval while an input is held,
+ * like a keyboard key repeat or a turbo / autofire button.
+ */
+
+// Options for the Key Repeat
+export interface KeyRepeatOptions {
+  // delay before the first repeat in ms (default: 400)
+  delay?: number;
+  // interval between repeats in ms (default: 100)
+  interval?: number;
+}
+
+/**
+ * Key Repeat
+ */
+export class KeyRepeat {
+  // delay before the first repeat in ms
+  delay: number;
+  // interval between repeats in ms
+  interval: number;
+  // callback triggered on every repeat
+  callback: () => void;
+  // timers
+  delayTimer: number = -1;
+  intervalTimer: number = -1;
+
+  /**
+   * Create a new Key Repeat
+   */
+  constructor(callback: () => void, options: KeyRepeatOptions = {}) {
+    this.callback = callback;
+    this.delay = options.delay === undefined ? 400 : options.delay;
+    this.interval = options.interval === undefined ? 100 : options.interval;
+  }
+
+  /**
+   * Is Running
+   */
+  get isRunning() {
+    return this.delayTimer !== -1 || this.intervalTimer !== -1;
+  }
+
+  /**
+   * Start
+   *
+   * (Re)starts the repeat, the first repeat fires after the delay
+   */
+  start() {
+    this.stop();
+    this.delayTimer = window.setTimeout(() => {
+      this.delayTimer = -1;
+      this.intervalTimer = window.setInterval(this.callback, this.interval);
+      this.callback();
+    }, this.delay);
+  }
+
+  /**
+   * Stop
+   *
+   * Stops the repeat and clears the timers
+   */
+  stop() {
+    if (this.delayTimer !== -1) window.clearTimeout(this.delayTimer);
+    if (this.intervalTimer !== -1) window.clearInterval(this.intervalTimer);
+    this.delayTimer = -1;
+    this.intervalTimer = -1;
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Keyboard Bridge 🎮 - Drive keyboard games with the on-screen controllers
+ *
+ * Maps the input of a controller to synthetic keydown / keyup KeyboardEvents,
+ * so legacy games and emulators that only read the keyboard can be played with touch controls.
+ */
+
+import { ButtonController } from "./Button";
+import { DpadCardinal, DpadController } from "./Dpad";
+import { JoysickController } from "./Joystick";
+import { RetrackableSlider } from "./RetractableSlider";
+
+// Inputs that can be mapped to a key
+// up / down / left / right - D-pad arms or joystick sectors
+// press - button press or slider pushed past the threshold
+export type KeyboardBridgeInput = DpadCardinal | "press";
+
+// A key, either a KeyboardEvent.code ("ArrowUp", "KeyZ") or the full key description
+export type KeyBinding =
+  | string
+  | { code: string; key?: string; keyCode?: number };
+
+// Key map of a controller
+export type KeyboardKeyMap = { [input in KeyboardBridgeInput]?: KeyBinding };
+
+// Controllers supported by the Keyboard Bridge
+export type KeyboardBridgeController =
+  | ButtonController
+  | DpadController
+  | JoysickController
+  | RetrackableSlider;
+
+// Options for the Keyboard Bridge
+export interface KeyboardBridgeOptions {
+  // key map of the controller
+  keyMap: KeyboardKeyMap;
+  // target of the KeyboardEvents (default: the focused element or body)
+  target?: EventTarget;
+  // joystick magnitude / slider value (0 - 1) needed to press a key (default: 0.5)
+  threshold?: number;
+  // verbose logging (default: false)
+  verboseLogging?: boolean;
+}
+
+// keyCode of the non character keys (for games that still read keyCode / which)
+const keyCodes: { [code: string]: number } = {
+  Backspace: 8,
+  Tab: 9,
+  Enter: 13,
+  ShiftLeft: 16,
+  ShiftRight: 16,
+  ControlLeft: 17,
+  ControlRight: 17,
+  AltLeft: 18,
+  AltRight: 18,
+  Escape: 27,
+  Space: 32,
+  ArrowLeft: 37,
+  ArrowUp: 38,
+  ArrowRight: 39,
+  ArrowDown: 40,
+};
+
+/**
+ * Resolve Key Binding
+ *
+ * Fills in the key and keyCode of a KeyboardEvent.code
+ */
+export function resolveKeyBinding(binding: KeyBinding) {
+  const { code, key, keyCode } =
+    typeof binding === "string" ? { code: binding } : binding;
+  const letter = /^Key([A-Z])$/.exec(code);
+  const digit = /^Digit([0-9])$/.exec(code);
+  let resolvedKey = code;
+  let resolvedKeyCode = keyCodes[code] || 0;
+  if (letter) {
+    resolvedKey = letter[1].toLowerCase();
+    resolvedKeyCode = letter[1].charCodeAt(0);
+  } else if (digit) {
+    resolvedKey = digit[1];
+    resolvedKeyCode = digit[1].charCodeAt(0);
+  } else if (code === "Space") {
+    resolvedKey = " ";
+  } else if (/^(Shift|Control|Alt|Meta)(Left|Right)$/.test(code)) {
+    resolvedKey = code.replace(/(Left|Right)$/, "");
+  }
+  return {
+    code,
+    key: key === undefined ? resolvedKey : key,
+    keyCode: keyCode === undefined ? resolvedKeyCode : keyCode,
+  };
+}
+
+/**
+ * Keyboard Bridge
+ */
+export class KeyboardBridge {
+  // the bridged controller
+  controller: KeyboardBridgeController;
+  // key map of the controller
+  keyMap: KeyboardKeyMap;
+  // target of the KeyboardEvents
+  target?: EventTarget;
+  // threshold for the analog controllers
+  threshold: number;
+  // verbose logging
+  verboseLogging: boolean;
+  // inputs whose key is currently down
+  held: Set<KeyboardBridgeInput> = new Set();
+  // removes the controller subscriptions
+  unsubscribe: () => void;
+
+  /**
+   * Create a new Keyboard Bridge
+   */
+  constructor(
+    controller: KeyboardBridgeController,
+    options: KeyboardBridgeOptions
+  ) {
+    this.controller = controller;
+    this.keyMap = options.keyMap;
+    this.target = options.target;
+    this.threshold = options.threshold === undefined ? 0.5 : options.threshold;
+    this.verboseLogging = options.verboseLogging || false;
+    this.unsubscribe = this.subscribe(controller);
+  }
+
+  /**
+   * Log
+   */
+  log(message: string) {
+    if (this.verboseLogging)
+      console.log(`[KeyboardBridge:${this.controller.uid}] ${message}`);
+  }
+
+  /**
+   * Subscribe
+   *
+   * Subscribes to the events of the controller and returns the unsubscribe function
+   */
+  subscribe(controller: KeyboardBridgeController): () => void {
+    if (controller instanceof DpadController) {
+      const onPress = (_: unknown, repeat: boolean) => {
+        if (repeat)
+          this.held.forEach((input) => this.dispatch("keydown", input, true));
+      };
+      const onCardinalPress = (cardinal: DpadCardinal) => this.press(cardinal);
+      const onCardinalRelease = (cardinal: DpadCardinal) =>
+        this.release(cardinal);
+      controller.on("press", onPress);
+      controller.on("cardinalpress", onCardinalPress);
+      controller.on("cardinalrelease", onCardinalRelease);
+      return () => {
+        controller.off("press", onPress);
+        controller.off("cardinalpress", onCardinalPress);
+        controller.off("cardinalrelease", onCardinalRelease);
+      };
+    }
+    if (controller instanceof ButtonController) {
+      const onPress = (repeat: boolean) =>
+        repeat ? this.dispatch("keydown", "press", true) : this.press("press");
+      const onRelease = () => this.release("press");
+      controller.on("press", onPress);
+      controller.on("release", onRelease);
+      return () => {
+        controller.off("press", onPress);
+        controller.off("release", onRelease);
+      };
+    }
+    if (controller instanceof JoysickController) {
+      const onMove = () => {
+        const { direction, magnitude } = controller.state;
+        const active = magnitude >= this.threshold;
+        (["up", "down", "left", "right"] as DpadCardinal[]).forEach(
+          (cardinal) =>
+            active && direction.includes(cardinal)
+              ? this.press(cardinal)
+              : this.release(cardinal)
+        );
+      };
+      const onEnd = () => this.releaseAll();
+      controller.on("move", onMove);
+      controller.on("end", onEnd);
+      return () => {
+        controller.off("move", onMove);
+        controller.off("end", onEnd);
+      };
+    }
+    const onSlide = (value: number) =>
+      value / 100 >= this.threshold
+        ? this.press("press")
+        : this.release("press");
+    const onRelease = () => this.release("press");
+    controller.on("slide", onSlide);
+    controller.on("release", onRelease);
+    return () => {
+      controller.off("slide", onSlide);
+      controller.off("release", onRelease);
+    };
+  }
+
+  /**
+   * Press
+   *
+   * Dispatches a keydown for an input unless its key is already down
+   */
+  press(input: KeyboardBridgeInput) {
+    if (this.held.has(input) || !this.keyMap[input]) return;
+    this.held.add(input);
+    this.dispatch("keydown", input, false);
+  }
+
+  /**
+   * Release
+   *
+   * Dispatches a keyup for an input if its key is down
+   */
+  release(input: KeyboardBridgeInput) {
+    if (!this.held.delete(input)) return;
+    this.dispatch("keyup", input, false);
+  }
+
+  /**
+   * Release All
+   *
+   * Dispatches a keyup for every key that is down
+   */
+  releaseAll() {
+    this.held.forEach((input) => this.release(input));
+  }
+
+  /**
+   * Dispatch
+   *
+   * Dispatches the KeyboardEvent of an input to the target
+   */
+  dispatch(
+    type: "keydown" | "keyup",
+    input: KeyboardBridgeInput,
+    repeat: boolean
+  ) {
+    const binding = this.keyMap[input];
+    if (!binding) return;
+    const { code, key, keyCode } = resolveKeyBinding(binding);
+    this.log(`${type} ${code}${repeat ? " (repeat)" : ""}`);
+    const event = new KeyboardEvent(type, {
+      code,
+      key,
+      repeat,
+      bubbles: true,
+      cancelable: true,
+    });
+    // keyCode / which can not be set through the KeyboardEvent constructor
+    Object.defineProperty(event, "keyCode", { get: () => keyCode });
+    Object.defineProperty(event, "which", { get: () => keyCode });
+    const target = this.target || document.activeElement || document.body;
+    target.dispatchEvent(event);
+  }
+
+  /**
+   * Destroy
+   *
+   * Releases every key that is down and unsubscribes from the controller
+   */
+  destroy() {
+    this.releaseAll();
+    this.unsubscribe();
+  }
+}
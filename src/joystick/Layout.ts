@@ -0,0 +1,777 @@
+/**
+ * Layout 🎮 - Build a whole controller overlay from a JSON config
+ *
+ * A layout lists the controls of an overlay by type with their ids, positions, sizes, styles and bindings,
+ * so layouts can be shipped as data files and created with a single createLayout() call.
+ */
+
+import { Anchor, AnchorOptions, anchors } from "./Anchor";
+import { ButtonController } from "./Button";
+import { ControllerHub } from "./ControllerHub";
+import { DpadController } from "./Dpad";
+import { EventEmitter } from "./EventEmitter";
+import { JoysickController } from "./Joystick";
+import { KeyboardBridge, KeyboardKeyMap } from "./KeyboardBridge";
+import { RetrackableSlider } from "./RetractableSlider";
+import {
+  applyTheme,
+  isThemeName,
+  isThemeProperty,
+  resolveTheme,
+  Theme,
+  ThemeName,
+  themeProperties,
+  themes,
+} from "./Theme";
+import { VirtualGamepad } from "./VirtualGamepad";
+
+// Control types of a layout
+export type LayoutControlType = "joystick" | "dpad" | "button" | "slider";
+const controlTypes: LayoutControlType[] = [
+  "joystick",
+  "dpad",
+  "button",
+  "slider",
+];
+
+// Controller created for a control of a layout
+export type LayoutController =
+  | JoysickController
+  | DpadController
+  | ButtonController
+  | RetrackableSlider;
+
+// A control of a layout
+export interface LayoutControlConfig {
+  // type of the control
+  type: LayoutControlType;
+  // unique id of the control in the layout
+  id: string;
+  // position of the control in the container, by top / left or by anchor
+  position?: { top?: string; left?: string; rotate?: number } & AnchorOptions;
+  // size of the control (radius for joystick / dpad, width / height for button / slider)
+  size?: { radius?: number; width?: string; height?: string };
+  // opacity of the control (0 - 1, default: 1)
+  opacity?: number;
+  // style options of the control (color, thumbColor, colorBase, borderColor, ...)
+  style?: { [option: string]: string };
+  // any other serializable option of the controller (deadZone, mode, snap, keyRepeat, ...)
+  options?: { [option: string]: unknown };
+  // bindings of the control
+  bindings?: {
+    // keyboard keys (up / down / left / right for joystick and dpad, press for button and slider)
+    keys?: KeyboardKeyMap;
+    // virtual gamepad input ("left" / "right" stick for joysticks, "dpad" for dpads, the button index for buttons and sliders)
+    gamepad?: number | "left" | "right" | "dpad";
+  };
+}
+
+// Position and size of a control
+export type LayoutPlacement = Pick<LayoutControlConfig, "position" | "size">;
+
+// Viewport conditions of a layout variant (every given condition must match)
+export interface LayoutVariantQuery {
+  // orientation of the viewport
+  orientation?: "portrait" | "landscape";
+  // viewport width in px
+  minWidth?: number;
+  maxWidth?: number;
+  // viewport aspect ratio (width / height)
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+}
+
+// A variant of a layout for an orientation or breakpoint
+export interface LayoutVariant {
+  // id of the variant
+  id: string;
+  // viewport conditions of the variant
+  when: LayoutVariantQuery;
+  // positions and sizes that replace the ones of the controls by control id
+  controls: { [id: string]: LayoutPlacement };
+}
+
+// A layout config
+export interface LayoutConfig {
+  // id of the layout
+  id?: string;
+  // controls of the layout
+  controls: LayoutControlConfig[];
+  // variants of the layout, the first variant matching the viewport is used
+  variants?: LayoutVariant[];
+  // theme of every control of the layout (a built-in theme name or theme properties)
+  theme?: ThemeName | Theme;
+}
+
+// Events emitted by a Layout
+export type LayoutEvents = {
+  // the active variant changed (undefined when no variant matches)
+  variantchange: (
+    variant: LayoutVariant | undefined,
+    previous: LayoutVariant | undefined
+  ) => void;
+};
+
+/**
+ * Layout Validation Error
+ *
+ * Thrown by createLayout with every problem found in the config
+ */
+export class LayoutValidationError extends Error {
+  // readable description of every problem
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid layout config:\n  - ${errors.join("\n  - ")}`);
+    this.name = "LayoutValidationError";
+    this.errors = errors;
+  }
+}
+
+// Is a plain object
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Deep copy of the arrays and plain objects of a config (other values, like response curve functions, are shared)
+const copyConfig = <T>(value: T): T =>
+  Array.isArray(value)
+    ? (value.map(copyConfig) as T)
+    : isObject(value) && Object.getPrototypeOf(value) === Object.prototype
+    ? (Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, copyConfig(entry)])
+      ) as T)
+    : value;
+
+/**
+ * Validate Layout
+ *
+ * Checks a layout config and returns a readable description of every problem
+ */
+export function validateLayout(config: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(config)) return ["layout config must be an object"];
+  if (config.id !== undefined && typeof config.id !== "string") {
+    errors.push("id must be a string");
+  }
+  if (!Array.isArray(config.controls)) {
+    errors.push("controls must be an array");
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  config.controls.forEach((control: unknown, index: number) => {
+    if (!isObject(control)) {
+      errors.push(`controls[${index}] must be an object`);
+      return;
+    }
+    const name =
+      typeof control.id === "string"
+        ? `controls[${index}] ("${control.id}")`
+        : `controls[${index}]`;
+    const type = control.type as LayoutControlType;
+
+    // type and id
+    if (!controlTypes.includes(type)) {
+      errors.push(
+        `${name}: unknown type ${JSON.stringify(
+          control.type
+        )}, expected one of ${controlTypes.join(", ")}`
+      );
+    }
+    if (typeof control.id !== "string" || control.id === "") {
+      errors.push(`${name}: id must be a non-empty string`);
+    } else if (ids.has(control.id)) {
+      errors.push(`${name}: duplicate id "${control.id}"`);
+    } else {
+      ids.add(control.id);
+    }
+
+    // position and size
+    const { position, size, style, options, bindings } = control;
+    validatePlacement(name, { position, size }, errors);
+
+    // opacity, style and options
+    if (
+      control.opacity !== undefined &&
+      (typeof control.opacity !== "number" ||
+        control.opacity < 0 ||
+        control.opacity > 1)
+    ) {
+      errors.push(`${name}: opacity must be a number between 0 and 1`);
+    }
+    if (style !== undefined) {
+      if (!isObject(style)) errors.push(`${name}: style must be an object`);
+      else
+        Object.entries(style).forEach(([key, value]) => {
+          if (typeof value !== "string")
+            errors.push(`${name}: style.${key} must be a string`);
+        });
+    }
+    if (options !== undefined && !isObject(options)) {
+      errors.push(`${name}: options must be an object`);
+    }
+
+    // bindings
+    if (bindings !== undefined) {
+      if (!isObject(bindings)) {
+        errors.push(`${name}: bindings must be an object`);
+        return;
+      }
+      const inputs =
+        type === "joystick" || type === "dpad"
+          ? ["up", "down", "left", "right"]
+          : ["press"];
+      if (bindings.keys !== undefined) {
+        if (!isObject(bindings.keys))
+          errors.push(`${name}: bindings.keys must be an object`);
+        else
+          Object.entries(bindings.keys).forEach(([input, key]) => {
+            if (!inputs.includes(input))
+              errors.push(
+                `${name}: bindings.keys.${input} is not an input of a ${type}, expected one of ${inputs.join(
+                  ", "
+                )}`
+              );
+            else if (typeof key !== "string" && !isObject(key))
+              errors.push(`${name}: bindings.keys.${input} must be a key code`);
+          });
+      }
+      const gamepad = bindings.gamepad;
+      if (gamepad !== undefined) {
+        const valid =
+          type === "joystick"
+            ? gamepad === "left" || gamepad === "right"
+            : type === "dpad"
+            ? gamepad === "dpad"
+            : typeof gamepad === "number" &&
+              Number.isInteger(gamepad) &&
+              gamepad >= 0 &&
+              gamepad < 17;
+        if (!valid)
+          errors.push(
+            `${name}: bindings.gamepad must be ${
+              type === "joystick"
+                ? '"left" or "right"'
+                : type === "dpad"
+                ? '"dpad"'
+                : "a standard button index (0 - 16)"
+            }`
+          );
+      }
+    }
+  });
+
+  // theme
+  const theme = config.theme;
+  if (typeof theme === "string") {
+    if (!isThemeName(theme))
+      errors.push(
+        `theme must be one of ${Object.keys(themes).join(", ")} or an object`
+      );
+  } else if (theme !== undefined) {
+    if (!isObject(theme))
+      errors.push("theme must be a theme name or an object");
+    else
+      Object.entries(theme).forEach(([property, value]) => {
+        if (!isThemeProperty(property))
+          errors.push(`theme.${property} is not a theme property`);
+        else if (typeof value !== "string")
+          errors.push(`theme.${property} must be a CSS value string`);
+      });
+  }
+
+  // variants
+  if (config.variants !== undefined) {
+    if (!Array.isArray(config.variants)) {
+      errors.push("variants must be an array");
+      return errors;
+    }
+    config.variants.forEach((variant: unknown, index: number) => {
+      const name = `variants[${index}]`;
+      if (!isObject(variant)) {
+        errors.push(`${name} must be an object`);
+        return;
+      }
+      if (typeof variant.id !== "string" || variant.id === "") {
+        errors.push(`${name}: id must be a non-empty string`);
+      }
+      const { when, controls } = variant;
+      if (!isObject(when)) errors.push(`${name}: when must be an object`);
+      else {
+        if (
+          when.orientation !== undefined &&
+          when.orientation !== "portrait" &&
+          when.orientation !== "landscape"
+        )
+          errors.push(
+            `${name}: when.orientation must be "portrait" or "landscape"`
+          );
+        ["minWidth", "maxWidth", "minAspectRatio", "maxAspectRatio"].forEach(
+          (key) => {
+            if (
+              when[key] !== undefined &&
+              (typeof when[key] !== "number" || (when[key] as number) < 0)
+            )
+              errors.push(`${name}: when.${key} must be a positive number`);
+          }
+        );
+      }
+      if (!isObject(controls)) {
+        errors.push(`${name}: controls must be an object`);
+        return;
+      }
+      Object.entries(controls).forEach(([id, placement]) => {
+        if (!ids.has(id))
+          errors.push(`${name}: controls.${id} is not a control of the layout`);
+        if (!isObject(placement))
+          errors.push(`${name}: controls.${id} must be an object`);
+        else validatePlacement(`${name}: controls.${id}`, placement, errors);
+      });
+    });
+  }
+  return errors;
+}
+
+/**
+ * Validate Placement
+ *
+ * Checks the position and size of a control
+ */
+function validatePlacement(
+  name: string,
+  { position, size }: { [key: string]: unknown },
+  errors: string[]
+) {
+  if (position !== undefined) {
+    if (!isObject(position)) errors.push(`${name}: position must be an object`);
+    else {
+      ["top", "left"].forEach((key) => {
+        if (position[key] !== undefined && typeof position[key] !== "string")
+          errors.push(`${name}: position.${key} must be a CSS length string`);
+      });
+      if (position.rotate !== undefined && typeof position.rotate !== "number")
+        errors.push(`${name}: position.rotate must be a number of degrees`);
+      if (
+        position.anchor !== undefined &&
+        !anchors.includes(position.anchor as Anchor)
+      )
+        errors.push(
+          `${name}: position.anchor must be one of ${anchors.join(", ")}`
+        );
+      ["offsetX", "offsetY"].forEach((key) => {
+        if (
+          position[key] !== undefined &&
+          typeof position[key] !== "number" &&
+          typeof position[key] !== "string"
+        )
+          errors.push(
+            `${name}: position.${key} must be a number of px or a CSS length string`
+          );
+      });
+      if (
+        position.safeArea !== undefined &&
+        typeof position.safeArea !== "boolean"
+      )
+        errors.push(`${name}: position.safeArea must be a boolean`);
+    }
+  }
+  if (size !== undefined) {
+    if (!isObject(size)) errors.push(`${name}: size must be an object`);
+    else {
+      if (
+        size.radius !== undefined &&
+        (typeof size.radius !== "number" || size.radius <= 0)
+      )
+        errors.push(`${name}: size.radius must be a positive number`);
+      ["width", "height"].forEach((key) => {
+        if (size[key] !== undefined && typeof size[key] !== "string")
+          errors.push(`${name}: size.${key} must be a CSS length string`);
+      });
+    }
+  }
+}
+
+/**
+ * Match Variant
+ *
+ * Whether the viewport matches the conditions of a layout variant
+ */
+export function matchVariant(
+  query: LayoutVariantQuery,
+  width: number = window.innerWidth,
+  height: number = window.innerHeight
+): boolean {
+  const orientation = height > width ? "portrait" : "landscape";
+  const aspectRatio = height > 0 ? width / height : 0;
+  return (
+    (query.orientation === undefined || query.orientation === orientation) &&
+    (query.minWidth === undefined || width >= query.minWidth) &&
+    (query.maxWidth === undefined || width <= query.maxWidth) &&
+    (query.minAspectRatio === undefined ||
+      aspectRatio >= query.minAspectRatio) &&
+    (query.maxAspectRatio === undefined || aspectRatio <= query.maxAspectRatio)
+  );
+}
+
+/**
+ * Placement Of
+ *
+ * Current position and size of a controller
+ */
+function placementOf(controller: LayoutController): LayoutPlacement {
+  const position = {
+    ...(controller.anchoring
+      ? controller.anchoring
+      : { top: controller.top, left: controller.left }),
+    ...(controller instanceof RetrackableSlider
+      ? {}
+      : { rotate: controller.rotate }),
+  };
+  if (
+    controller instanceof JoysickController ||
+    controller instanceof DpadController
+  ) {
+    return { position, size: { radius: controller.radius } };
+  }
+  return {
+    position,
+    size: { width: controller.width, height: controller.height },
+  };
+}
+
+/**
+ * Merge Position
+ *
+ * Applies the position of a variant, an anchor replaces top / left and top / left replace an anchor
+ */
+function mergePosition(
+  position: LayoutPlacement["position"] = {},
+  override: LayoutPlacement["position"] = {}
+): LayoutPlacement["position"] {
+  const { anchor, offsetX, offsetY, safeArea, ...placed } = position;
+  const { top, left, ...anchored } = position;
+  if (override.anchor !== undefined) return { ...anchored, ...override };
+  if (override.top !== undefined || override.left !== undefined)
+    return { ...placed, ...override };
+  return { ...position, ...override };
+}
+
+/**
+ * Place Controller
+ *
+ * Moves and resizes a controller in place with update(), so its input state is kept
+ */
+function placeController(
+  controller: LayoutController,
+  { position = {}, size = {} }: LayoutPlacement
+) {
+  // an anchor replaces the previous anchor instead of being merged into it
+  if (position.anchor) controller.setAnchor(undefined);
+  const { rotate, ...place } = position;
+  if (controller instanceof RetrackableSlider) {
+    controller.update({ ...place, width: size.width, height: size.height });
+  } else if (controller instanceof ButtonController) {
+    controller.update({ ...position, width: size.width, height: size.height });
+  } else {
+    controller.update({ ...position, radius: size.radius });
+  }
+}
+
+/**
+ * Create Controller
+ *
+ * Creates the controller of a layout control
+ */
+export function createController(
+  control: LayoutControlConfig,
+  container: HTMLElement
+): LayoutController {
+  const options = {
+    uid: control.id,
+    ...control.options,
+    ...control.style,
+    ...control.position,
+    ...control.size,
+    container,
+  };
+  switch (control.type) {
+    case "joystick":
+      return new JoysickController(
+        options as ConstructorParameters<typeof JoysickController>[0]
+      );
+    case "dpad":
+      return new DpadController(
+        options as ConstructorParameters<typeof DpadController>[0]
+      );
+    case "button":
+      return new ButtonController(
+        options as ConstructorParameters<typeof ButtonController>[0]
+      );
+    case "slider":
+      return new RetrackableSlider(
+        options as ConstructorParameters<typeof RetrackableSlider>[0]
+      );
+  }
+}
+
+/**
+ * Layout
+ */
+export class Layout extends EventEmitter<LayoutEvents> {
+  // id of the layout
+  id: string;
+  // config the layout was created from
+  config: LayoutConfig;
+  // container of the layout
+  container: HTMLElement;
+  // controllers by control id
+  controllers: { [id: string]: LayoutController } = {};
+  // hub to poll every controller of the layout
+  hub: ControllerHub<{ [id: string]: LayoutController }>;
+  // keyboard bridges of the controls with key bindings
+  keyboardBridges: KeyboardBridge[] = [];
+  // virtual gamepad of the controls with gamepad bindings
+  gamepad?: VirtualGamepad;
+  // positions and sizes of the controls without a variant by control id
+  placements: { [id: string]: LayoutPlacement } = {};
+  // active variant
+  variant?: LayoutVariant;
+  // switches the variant when the viewport changes
+  onViewportChange: () => void;
+  // custom properties of the container before the layout themed it, restored on destroy
+  containerTheme?: { [property: string]: string };
+
+  /**
+   * Create a new Layout (use createLayout to validate the config first)
+   */
+  constructor(config: LayoutConfig, container: HTMLElement) {
+    super();
+    this.id = config.id || "layout";
+    // the layout edits its own copy (opacities, moved controls of the variants)
+    config = copyConfig(config);
+    this.config = config;
+    this.container = container;
+    this.onViewportChange = () => this.updateVariant();
+
+    // controls
+    const gamepad: ConstructorParameters<typeof VirtualGamepad>[0] = {};
+    config.controls.forEach((control, index) => {
+      let controller: LayoutController;
+      try {
+        controller = createController(control, container);
+      } catch (e) {
+        // options the controller rejects, the controls created so far are removed again
+        this.destroy();
+        throw new LayoutValidationError([
+          `controls[${index}] ("${control.id}"): ${(e as Error).message}`,
+        ]);
+      }
+      this.controllers[control.id] = controller;
+      this.placements[control.id] = placementOf(controller);
+      if (control.opacity !== undefined)
+        this.setOpacity(control.id, control.opacity);
+
+      // bindings
+      const { keys, gamepad: input } = control.bindings || {};
+      if (keys) {
+        this.keyboardBridges.push(
+          new KeyboardBridge(controller, { keyMap: keys })
+        );
+      }
+      if (input === "left") gamepad.joystick = controller as JoysickController;
+      else if (input === "right")
+        gamepad.rightJoystick = controller as JoysickController;
+      else if (input === "dpad") gamepad.dpad = controller as DpadController;
+      else if (
+        typeof input === "number" &&
+        controller instanceof ButtonController
+      )
+        (gamepad.buttons ||= {})[input] = controller;
+      else if (
+        typeof input === "number" &&
+        controller instanceof RetrackableSlider
+      )
+        (gamepad.sliders ||= {})[input] = controller;
+    });
+    this.hub = new ControllerHub(this.controllers);
+    if (Object.keys(gamepad).length > 0) {
+      this.gamepad = new VirtualGamepad(gamepad);
+    }
+
+    // theme
+    if (config.theme) this.themeContainer(config.theme);
+
+    // variants
+    if (config.variants && config.variants.length > 0) {
+      window.addEventListener("resize", this.onViewportChange);
+      window.addEventListener("orientationchange", this.onViewportChange);
+      this.updateVariant();
+    }
+  }
+
+  /**
+   * Get
+   *
+   * Get the controller of a control by id
+   */
+  get<Controller extends LayoutController = LayoutController>(
+    id: string
+  ): Controller | undefined {
+    return this.controllers[id] as Controller | undefined;
+  }
+
+  /**
+   * Update Variant
+   *
+   * Switches to the first variant matching the viewport, the controllers are moved in place so held inputs are kept
+   */
+  updateVariant() {
+    const variant = (this.config.variants || []).find((variant) =>
+      matchVariant(variant.when)
+    );
+    if (variant === this.variant) return;
+    const previous = this.variant;
+    this.variant = variant;
+    Object.entries(this.controllers).forEach(([id, controller]) => {
+      const placement = this.placements[id];
+      const override = variant ? variant.controls[id] || {} : {};
+      placeController(controller, {
+        position: mergePosition(placement.position, override.position),
+        size: { ...placement.size, ...override.size },
+      });
+    });
+    this.emit("variantchange", variant, previous);
+  }
+
+  /**
+   * Save Placement
+   *
+   * Stores the current position and size of a moved or resized control in the active variant
+   * (or as the default placement when no variant is active)
+   */
+  savePlacement(id: string) {
+    const controller = this.controllers[id];
+    if (!controller) return;
+    if (this.variant) this.variant.controls[id] = placementOf(controller);
+    else this.placements[id] = placementOf(controller);
+  }
+
+  /**
+   * Set Theme
+   *
+   * Restyles every control of the layout live
+   */
+  setTheme(theme: ThemeName | Theme) {
+    this.config.theme = theme;
+    this.themeContainer(theme);
+  }
+
+  /**
+   * Theme Container
+   *
+   * Applies a theme to the container, its previous custom properties are kept to restore them on destroy
+   */
+  themeContainer(theme: ThemeName | Theme) {
+    if (!this.containerTheme) {
+      const saved: { [property: string]: string } = {};
+      Object.values(themeProperties).forEach((property) => {
+        saved[property] = this.container.style.getPropertyValue(property);
+      });
+      this.containerTheme = saved;
+    }
+    applyTheme(this.container, resolveTheme(theme));
+  }
+
+  /**
+   * Set Opacity
+   *
+   * Sets the opacity of a control (applied as a filter, so the press feedback of the controller still shows)
+   */
+  setOpacity(id: string, opacity: number) {
+    const controller = this.controllers[id];
+    const control = this.config.controls.find((control) => control.id === id);
+    if (!controller || !control) return;
+    control.opacity = opacity;
+    controller.base.style.filter = opacity === 1 ? "" : `opacity(${opacity})`;
+  }
+
+  /**
+   * To Config
+   *
+   * Serializes the layout with the current positions, sizes and dead zones of its controllers and variants
+   */
+  toConfig(): LayoutConfig {
+    const config: LayoutConfig = JSON.parse(JSON.stringify(this.config));
+    config.controls.forEach((control) => {
+      const controller = this.controllers[control.id];
+      if (!controller) return;
+      const placement = this.placements[control.id];
+      control.position = placement.position;
+      control.size = { ...control.size, ...placement.size };
+      if (controller instanceof JoysickController) {
+        control.options = {
+          ...control.options,
+          deadZone: controller.deadZone,
+          outerDeadZone: controller.outerDeadZone,
+          deadZoneMode: controller.deadZoneMode,
+        };
+        // custom response curves are functions and can not be serialized
+        if (typeof controller.responseCurve === "string") {
+          control.options.responseCurve = controller.responseCurve;
+          control.options.responseFactor = controller.responseFactor;
+        }
+      }
+    });
+    return config;
+  }
+
+  /**
+   * Destroy
+   *
+   * Destroys every controller and binding of the layout
+   */
+  destroy() {
+    this.keyboardBridges.forEach((bridge) => bridge.destroy());
+    this.keyboardBridges = [];
+    Object.values(this.controllers).forEach((controller) =>
+      controller.destroy()
+    );
+    this.controllers = {};
+    if (this.gamepad) this.gamepad.connected = false;
+    window.removeEventListener("resize", this.onViewportChange);
+    window.removeEventListener("orientationchange", this.onViewportChange);
+    // the container (often the body) is shared with other controllers
+    if (this.containerTheme) {
+      Object.entries(this.containerTheme).forEach(([property, value]) => {
+        if (value) this.container.style.setProperty(property, value);
+        else this.container.style.removeProperty(property);
+      });
+      this.containerTheme = undefined;
+    }
+    this.off();
+  }
+}
+
+/**
+ * Create Layout
+ *
+ * Validates a layout config (an object or a JSON string) and creates its controls in the container
+ */
+export function createLayout(
+  config: LayoutConfig | string,
+  container: HTMLElement = document.body
+): Layout {
+  let parsed: unknown = config;
+  if (typeof config === "string") {
+    try {
+      parsed = JSON.parse(config);
+    } catch (e) {
+      throw new LayoutValidationError([
+        `layout is not valid JSON: ${(e as Error).message}`,
+      ]);
+    }
+  }
+  const errors = validateLayout(parsed);
+  if (errors.length > 0) throw new LayoutValidationError(errors);
+  return new Layout(parsed as LayoutConfig, container);
+}
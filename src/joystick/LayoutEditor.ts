@@ -0,0 +1,460 @@
+/**
+ * Layout Editor 🎮 - Let players move and resize the controls of a layout
+ *
+ * In edit mode the input of every control is suspended and each control gets a drag handle and a resize handle.
+ * Moves snap to a grid and to the safe-area edges of the container, and exportLayout() serializes the result.
+ */
+
+import { DpadController } from "./Dpad";
+import { EventEmitter } from "./EventEmitter";
+import { JoysickController } from "./Joystick";
+import { Layout, LayoutConfig, LayoutController } from "./Layout";
+
+// Insets of the safe area in px
+export interface SafeAreaInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Events emitted by the Layout Editor
+export type LayoutEditorEvents = {
+  // edit mode was entered
+  enter: () => void;
+  // edit mode was left
+  exit: () => void;
+  // a control was moved or resized
+  change: (id: string, controller: LayoutController) => void;
+};
+
+// Options for the Layout Editor
+export interface LayoutEditorOptions {
+  // grid size in px, 0 disables the grid (default: 8)
+  gridSize?: number;
+  // distance in px within which a control snaps to a safe-area edge (default: 12)
+  snapDistance?: number;
+  // safe-area insets in px (default: read from env(safe-area-inset-*))
+  safeArea?: SafeAreaInsets;
+  // color of the handles (default: #3498db)
+  handleColor?: string;
+}
+
+// Handles of a control in edit mode
+interface EditorHandle {
+  id: string;
+  controller: LayoutController;
+  // drag handle covering the control
+  frame: HTMLDivElement;
+  // resize handle in the bottom right corner
+  resize: HTMLDivElement;
+  // whether the controller was enabled before entering edit mode
+  wasEnabled: boolean;
+}
+
+/**
+ * Read Safe Area Insets
+ *
+ * Measures env(safe-area-inset-*) with a probe element
+ */
+export function readSafeAreaInsets(
+  container: HTMLElement = document.body
+): SafeAreaInsets {
+  const probe = document.createElement("div");
+  probe.style.cssText = `
+      position: absolute;
+      visibility: hidden;
+      pointer-events: none;
+      padding: env(safe-area-inset-top, 0px) env(safe-area-inset-right, 0px)
+        env(safe-area-inset-bottom, 0px) env(safe-area-inset-left, 0px);
+  `;
+  container.appendChild(probe);
+  const style = getComputedStyle(probe);
+  const insets = {
+    top: parseFloat(style.paddingTop) || 0,
+    right: parseFloat(style.paddingRight) || 0,
+    bottom: parseFloat(style.paddingBottom) || 0,
+    left: parseFloat(style.paddingLeft) || 0,
+  };
+  probe.remove();
+  return insets;
+}
+
+/**
+ * Layout Editor
+ */
+export class LayoutEditor extends EventEmitter<LayoutEditorEvents> {
+  // edited layout
+  layout: Layout;
+  // snapping
+  gridSize: number;
+  snapDistance: number;
+  safeArea?: SafeAreaInsets;
+  // color of the handles
+  handleColor: string;
+  // handles of the controls while editing
+  handles: EditorHandle[] = [];
+  // true while in edit mode
+  isEditing: boolean = false;
+  // re-places the handles when the viewport is resized or the layout switches its variant
+  private onLayoutChange = () => this.syncHandles();
+
+  /**
+   * Create a new Layout Editor
+   */
+  constructor(layout: Layout, options: LayoutEditorOptions = {}) {
+    super();
+    this.layout = layout;
+    this.gridSize = options.gridSize === undefined ? 8 : options.gridSize;
+    this.snapDistance =
+      options.snapDistance === undefined ? 12 : options.snapDistance;
+    this.safeArea = options.safeArea;
+    this.handleColor = options.handleColor || "#3498db";
+  }
+
+  /**
+   * Enter
+   *
+   * Suspends the input of every control and shows the drag and resize handles
+   */
+  enter() {
+    if (this.isEditing) return;
+    this.isEditing = true;
+    Object.entries(this.layout.controllers).forEach(([id, controller]) => {
+      const handle = this.createHandle(id, controller);
+      controller.disable();
+      this.handles.push(handle);
+      this.syncHandle(handle);
+    });
+    window.addEventListener("resize", this.onLayoutChange);
+    window.addEventListener("orientationchange", this.onLayoutChange);
+    this.layout.on("variantchange", this.onLayoutChange);
+    this.emit("enter");
+  }
+
+  /**
+   * Exit
+   *
+   * Removes the handles and resumes the input of the controls
+   */
+  exit() {
+    if (!this.isEditing) return;
+    this.isEditing = false;
+    this.handles.forEach((handle) => {
+      handle.frame.remove();
+      if (handle.wasEnabled) handle.controller.enable();
+    });
+    this.handles = [];
+    window.removeEventListener("resize", this.onLayoutChange);
+    window.removeEventListener("orientationchange", this.onLayoutChange);
+    this.layout.off("variantchange", this.onLayoutChange);
+    this.emit("exit");
+  }
+
+  /**
+   * Create Handle
+   *
+   * Creates the drag and resize handles of a control
+   */
+  createHandle(id: string, controller: LayoutController): EditorHandle {
+    const frame = document.createElement("div");
+    frame.id = `ts-layout-editor-${id}`;
+    frame.style.cssText = `
+        position: absolute;
+        box-sizing: border-box;
+        border: 2px dashed ${this.handleColor};
+        border-radius: 4px;
+        cursor: move;
+        touch-action: none;
+        user-select: none;
+        z-index: 1001;
+    `;
+    const resize = document.createElement("div");
+    resize.style.cssText = `
+        position: absolute;
+        right: -10px;
+        bottom: -10px;
+        width: 20px;
+        height: 20px;
+        border-radius: 50%;
+        background-color: ${this.handleColor};
+        cursor: nwse-resize;
+        touch-action: none;
+    `;
+    frame.appendChild(resize);
+    this.layout.container.appendChild(frame);
+
+    const handle: EditorHandle = {
+      id,
+      controller,
+      frame,
+      resize,
+      wasEnabled: controller.isEnabled,
+    };
+    frame.addEventListener("pointerdown", (e: PointerEvent) =>
+      this.startGesture(e, handle, "move")
+    );
+    resize.addEventListener("pointerdown", (e: PointerEvent) => {
+      e.stopPropagation();
+      this.startGesture(e, handle, "resize");
+    });
+    return handle;
+  }
+
+  /**
+   * Sync Handle
+   *
+   * Places the handles over the control
+   */
+  syncHandle(handle: EditorHandle) {
+    const rect = this.controlRect(handle.controller);
+    handle.frame.style.left = `${rect.left}px`;
+    handle.frame.style.top = `${rect.top}px`;
+    handle.frame.style.width = `${rect.width}px`;
+    handle.frame.style.height = `${rect.height}px`;
+  }
+
+  /**
+   * Sync Handles
+   *
+   * Places the handles of every control over it
+   */
+  syncHandles() {
+    this.handles.forEach((handle) => this.syncHandle(handle));
+  }
+
+  /**
+   * Control Rect
+   *
+   * Bounding rectangle of a control relative to the container
+   */
+  controlRect(controller: LayoutController) {
+    const containerRect = this.layout.container.getBoundingClientRect();
+    const rect = controller.base.getBoundingClientRect();
+    return {
+      left: rect.left - containerRect.left,
+      top: rect.top - containerRect.top,
+      width: rect.width,
+      height: rect.height,
+    };
+  }
+
+  /**
+   * Start Gesture
+   *
+   * Tracks a drag or resize of a control until the pointer is released
+   */
+  startGesture(
+    e: PointerEvent,
+    handle: EditorHandle,
+    gesture: "move" | "resize"
+  ) {
+    e.preventDefault();
+    const target = e.currentTarget as HTMLElement;
+    target.setPointerCapture(e.pointerId);
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const startRect = this.controlRect(handle.controller);
+    const startPosition = this.positionOf(handle.controller);
+    const startSize = this.sizeOf(handle.controller);
+    const safeArea = this.safeArea || readSafeAreaInsets(this.layout.container);
+
+    const onMove = (move: PointerEvent) => {
+      if (move.pointerId !== e.pointerId) return;
+      const dx = move.clientX - startX;
+      const dy = move.clientY - startY;
+      if (gesture === "move") {
+        const offset = this.snapOffset(startRect, dx, dy, safeArea);
+        this.setPosition(
+          handle.controller,
+          startPosition.left + offset.x,
+          startPosition.top + offset.y
+        );
+      } else {
+        this.setSize(handle.controller, startSize, dx, dy);
+      }
+      this.layout.savePlacement(handle.id);
+      this.syncHandle(handle);
+      this.emit("change", handle.id, handle.controller);
+    };
+    const onUp = (up: PointerEvent) => {
+      if (up.pointerId !== e.pointerId) return;
+      target.removeEventListener("pointermove", onMove);
+      target.removeEventListener("pointerup", onUp);
+      target.removeEventListener("pointercancel", onUp);
+    };
+    target.addEventListener("pointermove", onMove);
+    target.addEventListener("pointerup", onUp);
+    target.addEventListener("pointercancel", onUp);
+  }
+
+  /**
+   * Snap Offset
+   *
+   * Snaps the top left corner of a moved control to the grid and its edges to the safe area
+   */
+  snapOffset(
+    rect: { left: number; top: number; width: number; height: number },
+    dx: number,
+    dy: number,
+    safeArea: SafeAreaInsets
+  ) {
+    let x = dx;
+    let y = dy;
+    // grid
+    if (this.gridSize > 0) {
+      x =
+        Math.round((rect.left + dx) / this.gridSize) * this.gridSize -
+        rect.left;
+      y =
+        Math.round((rect.top + dy) / this.gridSize) * this.gridSize - rect.top;
+    }
+    // safe-area edges
+    const container = this.layout.container;
+    const right = container.clientWidth - safeArea.right;
+    const bottom = container.clientHeight - safeArea.bottom;
+    const left = rect.left + x;
+    const top = rect.top + y;
+    if (Math.abs(left - safeArea.left) <= this.snapDistance) {
+      x = safeArea.left - rect.left;
+    } else if (Math.abs(left + rect.width - right) <= this.snapDistance) {
+      x = right - rect.width - rect.left;
+    }
+    if (Math.abs(top - safeArea.top) <= this.snapDistance) {
+      y = safeArea.top - rect.top;
+    } else if (Math.abs(top + rect.height - bottom) <= this.snapDistance) {
+      y = bottom - rect.height - rect.top;
+    }
+    return { x, y };
+  }
+
+  /**
+   * Reference Size
+   *
+   * Size the position percentages of a control are relative to
+   */
+  referenceSize(controller: LayoutController) {
+    if (getComputedStyle(controller.base).position === "fixed") {
+      return { width: window.innerWidth, height: window.innerHeight };
+    }
+    return {
+      width: this.layout.container.clientWidth,
+      height: this.layout.container.clientHeight,
+    };
+  }
+
+  /**
+   * Position Of
+   *
+   * Position of a control in px
+   */
+  positionOf(controller: LayoutController) {
+    const base = controller.base;
+    const rect = base.getBoundingClientRect();
+    // origin of top / left: the viewport, the padding box of the container or the document (static body)
+    const container = this.layout.container;
+    const containerRect = container.getBoundingClientRect();
+    const origin =
+      getComputedStyle(base).position === "fixed"
+        ? { left: 0, top: 0 }
+        : getComputedStyle(container).position === "static"
+        ? { left: -window.scrollX, top: -window.scrollY }
+        : {
+            left: containerRect.left + container.clientLeft,
+            top: containerRect.top + container.clientTop,
+          };
+    // the center stays in place when the control is rotated, the unrotated size gives its corner
+    const { width, height } = this.sizeOf(controller);
+    const { centered } = controller.anchorBox();
+    return {
+      left:
+        rect.left + rect.width / 2 - origin.left - (centered ? 0 : width / 2),
+      top:
+        rect.top + rect.height / 2 - origin.top - (centered ? 0 : height / 2),
+    };
+  }
+
+  /**
+   * Set Position
+   *
+   * Moves a control, the position is stored as a percentage
+   */
+  setPosition(controller: LayoutController, left: number, top: number) {
+    const { width, height } = this.referenceSize(controller);
+    const percent = (value: number, size: number) =>
+      `${size ? Number(((value / size) * 100).toFixed(2)) : 0}%`;
+    // a moved control is placed by top / left instead of its anchor
+    controller.update({
+      left: percent(left, width),
+      top: percent(top, height),
+    });
+  }
+
+  /**
+   * Size Of
+   *
+   * Unrotated size of a control in px (the bounding rect of a rotated control is larger)
+   */
+  sizeOf(controller: LayoutController) {
+    const base = controller.base;
+    const rect = base.getBoundingClientRect();
+    return {
+      width:
+        (base instanceof HTMLElement ? base.offsetWidth : base.clientWidth) ||
+        rect.width,
+      height:
+        (base instanceof HTMLElement ? base.offsetHeight : base.clientHeight) ||
+        rect.height,
+    };
+  }
+
+  /**
+   * Set Size
+   *
+   * Resizes a control by the drag distance of the resize handle
+   */
+  setSize(
+    controller: LayoutController,
+    start: { width: number; height: number },
+    dx: number,
+    dy: number
+  ) {
+    const snap = (value: number) =>
+      Math.max(
+        this.gridSize || 1,
+        this.gridSize > 0
+          ? Math.round(value / this.gridSize) * this.gridSize
+          : value
+      );
+    if (
+      controller instanceof JoysickController ||
+      controller instanceof DpadController
+    ) {
+      controller.update({ radius: snap(start.width + Math.max(dx, dy)) });
+    } else {
+      controller.update({
+        width: `${snap(start.width + dx)}px`,
+        height: `${snap(start.height + dy)}px`,
+      });
+    }
+  }
+
+  /**
+   * Export Layout
+   *
+   * Serializes the layout with the edited positions (as percentages) and sizes
+   */
+  exportLayout(): LayoutConfig {
+    return this.layout.toConfig();
+  }
+
+  /**
+   * Destroy
+   *
+   * Leaves edit mode and removes all listeners
+   */
+  destroy() {
+    this.exit();
+    this.off();
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Layout Storage 🎮 - Persist the layouts and settings of the players
+ *
+ * Saves layouts (positions, sizes, opacity, dead zones and bindings) by layout id through a pluggable
+ * storage adapter. Saved layouts carry a schema version and are migrated when they are loaded,
+ * so layouts saved by older versions of the library keep loading.
+ */
+
+import {
+  createLayout,
+  Layout,
+  LayoutConfig,
+  LayoutValidationError,
+  validateLayout,
+} from "./Layout";
+
+// Current schema version of saved layouts
+export const LAYOUT_SCHEMA_VERSION = 1;
+
+// A saved layout
+export interface SavedLayout {
+  // schema version the layout was saved with
+  version: number;
+  // time the layout was saved (ms since epoch)
+  savedAt: number;
+  // the layout config
+  layout: LayoutConfig;
+}
+
+// Migration of a saved layout from its version to the next version (the result is validated when it is loaded)
+export type LayoutMigration = (saved: unknown) => unknown;
+
+// Storage backend of the Layout Storage
+export interface StorageAdapter {
+  // read a value, null if it does not exist
+  getItem(key: string): Promise<string | null>;
+  // write a value
+  setItem(key: string, value: string): Promise<void>;
+  // delete a value
+  removeItem(key: string): Promise<void>;
+  // every stored key
+  keys(): Promise<string[]>;
+}
+
+// Options for the Layout Storage
+export interface LayoutStorageOptions {
+  // storage backend (default: LocalStorageAdapter)
+  adapter?: StorageAdapter;
+  // prefix of the storage keys (default: "ts-stick:layout:")
+  prefix?: string;
+  // migrations by the version they migrate from, added to the built-in migrations
+  migrations?: { [version: number]: LayoutMigration };
+  // version saved layouts are migrated to (default: LAYOUT_SCHEMA_VERSION)
+  version?: number;
+}
+
+/**
+ * Layout Storage Error
+ *
+ * Thrown when a saved layout can not be read or migrated
+ */
+export class LayoutStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LayoutStorageError";
+  }
+}
+
+// Built-in migrations by the version they migrate from
+const builtInMigrations: { [version: number]: LayoutMigration } = {
+  // version 0 stored the bare layout config
+  0: (layout): SavedLayout => ({
+    version: 1,
+    savedAt: 0,
+    layout: layout as LayoutConfig,
+  }),
+};
+
+/**
+ * Memory Storage Adapter
+ *
+ * Keeps the values in memory, for tests and private browsing
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  values: Map<string, string> = new Map();
+
+  async getItem(key: string) {
+    const value = this.values.get(key);
+    return value === undefined ? null : value;
+  }
+
+  async setItem(key: string, value: string) {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.values.delete(key);
+  }
+
+  async keys() {
+    return Array.from(this.values.keys());
+  }
+}
+
+/**
+ * Local Storage Adapter
+ *
+ * Stores the values in window.localStorage
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  async getItem(key: string) {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string) {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.storage.removeItem(key);
+  }
+
+  async keys() {
+    const keys: string[] = [];
+    for (let index = 0; index < this.storage.length; index++) {
+      const key = this.storage.key(index);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * IndexedDB Storage Adapter
+ *
+ * Stores the values in an IndexedDB object store
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  databaseName: string;
+  storeName: string;
+  // opened database (opened on first use)
+  database?: Promise<IDBDatabase>;
+
+  constructor(
+    databaseName: string = "ts-stick",
+    storeName: string = "layouts"
+  ) {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  /**
+   * Open
+   *
+   * Opens the database and creates the object store on first use
+   */
+  open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName))
+            request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Request
+   *
+   * Runs a request on the object store and resolves with its result
+   */
+  async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(
+        database.transaction(this.storeName, mode).objectStore(this.storeName)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getItem(key: string) {
+    const value = await this.request("readonly", (store) => store.get(key));
+    return typeof value === "string" ? value : null;
+  }
+
+  async setItem(key: string, value: string) {
+    await this.request("readwrite", (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string) {
+    await this.request("readwrite", (store) => store.delete(key));
+  }
+
+  async keys() {
+    const keys = await this.request("readonly", (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  /**
+   * Close
+   *
+   * Closes the database
+   */
+  async close() {
+    if (!this.database) return;
+    (await this.database).close();
+    this.database = undefined;
+  }
+}
+
+/**
+ * Layout Storage
+ */
+export class LayoutStorage {
+  // storage backend
+  adapter: StorageAdapter;
+  // prefix of the storage keys
+  prefix: string;
+  // migrations by the version they migrate from
+  migrations: { [version: number]: LayoutMigration };
+  // version saved layouts are migrated to
+  version: number;
+
+  /**
+   * Create a new Layout Storage
+   */
+  constructor(options: LayoutStorageOptions = {}) {
+    this.adapter = options.adapter || new LocalStorageAdapter();
+    this.prefix =
+      options.prefix === undefined ? "ts-stick:layout:" : options.prefix;
+    this.migrations = { ...builtInMigrations, ...options.migrations };
+    this.version =
+      options.version === undefined ? LAYOUT_SCHEMA_VERSION : options.version;
+  }
+
+  /**
+   * Save
+   *
+   * Saves a layout (with the current settings of its controllers) or a layout config by its id
+   */
+  async save(layout: Layout | LayoutConfig) {
+    const config = layout instanceof Layout ? layout.toConfig() : layout;
+    const saved: SavedLayout = {
+      version: this.version,
+      savedAt: Date.now(),
+      layout: config,
+    };
+    await this.adapter.setItem(
+      this.prefix + (config.id || "layout"),
+      JSON.stringify(saved)
+    );
+  }
+
+  /**
+   * Load
+   *
+   * Loads the layout config saved under an id, migrated to the current version (undefined if none is saved)
+   */
+  async load(id: string): Promise<LayoutConfig | undefined> {
+    const value = await this.adapter.getItem(this.prefix + id);
+    if (value === null) return undefined;
+    let saved: unknown;
+    try {
+      saved = JSON.parse(value);
+    } catch (e) {
+      throw new LayoutStorageError(
+        `Saved layout "${id}" is not valid JSON: ${(e as Error).message}`
+      );
+    }
+
+    const version = this.versionOf(saved);
+    const migrated = this.migrate(saved, id);
+    const errors = validateLayout(migrated.layout);
+    if (errors.length > 0) throw new LayoutValidationError(errors);
+    // store the migrated layout, so it is only migrated once
+    if (version !== this.version) {
+      await this.adapter.setItem(this.prefix + id, JSON.stringify(migrated));
+    }
+    return migrated.layout;
+  }
+
+  /**
+   * Restore
+   *
+   * Creates the layout saved under the id of a default config, or the default layout if none is saved
+   */
+  async restore(
+    defaultConfig: LayoutConfig,
+    container: HTMLElement = document.body
+  ): Promise<Layout> {
+    const saved = await this.load(defaultConfig.id || "layout");
+    return createLayout(saved || defaultConfig, container);
+  }
+
+  /**
+   * Remove
+   *
+   * Deletes the layout saved under an id
+   */
+  async remove(id: string) {
+    await this.adapter.removeItem(this.prefix + id);
+  }
+
+  /**
+   * List
+   *
+   * Ids of every saved layout
+   */
+  async list(): Promise<string[]> {
+    const keys = await this.adapter.keys();
+    return keys
+      .filter((key) => key.startsWith(this.prefix))
+      .map((key) => key.substring(this.prefix.length));
+  }
+
+  /**
+   * Version Of
+   *
+   * Schema version of a saved layout (layouts saved before versioning have version 0)
+   */
+  versionOf(saved: unknown): number {
+    if (
+      typeof saved === "object" &&
+      saved !== null &&
+      typeof (saved as SavedLayout).version === "number"
+    ) {
+      return (saved as SavedLayout).version;
+    }
+    return 0;
+  }
+
+  /**
+   * Migrate
+   *
+   * Runs the migrations of a saved layout one version at a time up to the current version. Throws if
+   * the migrations skip past the current version or leave no layout.
+   */
+  migrate(saved: unknown, id: string): SavedLayout {
+    let version = this.versionOf(saved);
+    if (version > this.version) {
+      throw new LayoutStorageError(
+        `Saved layout "${id}" has version ${version}, newer than the supported version ${this.version}`
+      );
+    }
+    while (version < this.version) {
+      const migration = this.migrations[version];
+      if (!migration) {
+        throw new LayoutStorageError(
+          `Saved layout "${id}" can not be migrated from version ${version}`
+        );
+      }
+      saved = migration(saved);
+      const next = this.versionOf(saved);
+      if (next <= version) {
+        throw new LayoutStorageError(
+          `Migration of saved layout "${id}" from version ${version} did not increase the version`
+        );
+      }
+      version = next;
+    }
+    if (version !== this.version) {
+      throw new LayoutStorageError(
+        `Saved layout "${id}" was migrated to version ${version} instead of version ${this.version}`
+      );
+    }
+    const layout = (saved as SavedLayout).layout;
+    if (
+      typeof layout !== "object" ||
+      layout === null ||
+      Array.isArray(layout)
+    ) {
+      throw new LayoutStorageError(`Saved layout "${id}" has no layout`);
+    }
+    return saved as SavedLayout;
+  }
+}
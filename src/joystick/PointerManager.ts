@@ -0,0 +1,201 @@
+/**
+ * Pointer Manager 🎮 - Multi-touch arbitration between the controllers
+ *
+ * Every pointer that goes down in the container of a controller is assigned to exactly one controller by
+ * hit-testing, and only that controller receives its moves and its release. So one thumb can hold the
+ * joystick while the other presses two buttons. Pointers on buttons can slide out of a button and into
+ * its neighbours.
+ */
+
+// How a target holds its pointer
+// capture - the target keeps the pointer until it is lifted (joystick, D-pad, slider)
+// slide - the pointer slides out of the target when it leaves it, and into other slide targets it enters (buttons)
+export type PointerMode = "capture" | "slide";
+
+// A controller that receives pointers from the manager
+export interface PointerTarget {
+  // container of the target, only pointers that go down in it can hit the target
+  container: HTMLElement;
+  // false while the target ignores input (it is skipped by the hit-testing)
+  isEnabled: boolean;
+  // how the target holds its pointer
+  pointerMode: PointerMode;
+  // targets with a higher priority are hit first, on equal priority the last added target wins
+  pointerPriority: number;
+  // true if the point (client coordinates) hits the target
+  hitTest(clientX: number, clientY: number): boolean;
+  // the target was assigned the pointer
+  pointerDown(e: PointerEvent): void;
+  // the pointer of the target moved
+  pointerMove(e: PointerEvent): void;
+  // the pointer of the target was lifted, cancelled or slid out of the target
+  pointerUp(e: PointerEvent): void;
+  // true if a slide target keeps a pointer that left it while the pointer is over no other slide target
+  // (a button that may still recognize a swipe)
+  holdsPointer?(e: PointerEvent): boolean;
+}
+
+/**
+ * Pointer Manager
+ */
+export class PointerManager {
+  // manager shared by the controllers
+  private static sharedManager?: PointerManager;
+
+  // targets in the order they were added
+  targets: PointerTarget[] = [];
+  // tracked pointers and their owner (undefined while a pointer is on no target)
+  pointers = new Map<number, PointerTarget | undefined>();
+
+  // listeners (bound once so they can be removed)
+  private onDown = (e: PointerEvent) => this.down(e);
+  private onMove = (e: PointerEvent) => this.move(e);
+  private onUp = (e: PointerEvent) => this.up(e);
+
+  /**
+   * Shared
+   *
+   * Returns the manager shared by the controllers
+   */
+  static shared() {
+    return (PointerManager.sharedManager ||= new PointerManager());
+  }
+
+  /**
+   * Add
+   *
+   * Adds a target, the listeners are attached with the first target
+   */
+  add(target: PointerTarget) {
+    if (this.targets.includes(target)) return;
+    if (this.targets.length === 0) {
+      window.addEventListener("pointerdown", this.onDown);
+      window.addEventListener("pointermove", this.onMove);
+      window.addEventListener("pointerup", this.onUp);
+      window.addEventListener("pointercancel", this.onUp);
+    }
+    this.targets.push(target);
+  }
+
+  /**
+   * Remove
+   *
+   * Removes a target and drops its pointers, the listeners are removed with the last target
+   */
+  remove(target: PointerTarget) {
+    if (!this.targets.includes(target)) return;
+    this.targets = this.targets.filter((other) => other !== target);
+    this.pointers.forEach((owner, pointerId) => {
+      if (owner === target) this.pointers.delete(pointerId);
+    });
+    if (this.targets.length === 0) {
+      window.removeEventListener("pointerdown", this.onDown);
+      window.removeEventListener("pointermove", this.onMove);
+      window.removeEventListener("pointerup", this.onUp);
+      window.removeEventListener("pointercancel", this.onUp);
+      this.pointers.clear();
+    }
+  }
+
+  /**
+   * Owner Of
+   *
+   * Returns the target that owns a pointer
+   */
+  ownerOf(pointerId: number) {
+    return this.pointers.get(pointerId);
+  }
+
+  /**
+   * Target At
+   *
+   * Returns the free, enabled target hit at a point (optionally only slide targets or only targets in the
+   * containers of an event path)
+   */
+  targetAt(
+    clientX: number,
+    clientY: number,
+    slideOnly: boolean = false,
+    path?: EventTarget[]
+  ) {
+    const owners = new Set(this.pointers.values());
+    let hit: PointerTarget | undefined;
+    // later targets win on equal priority
+    this.targets.forEach((target) => {
+      if (
+        !target.isEnabled ||
+        owners.has(target) ||
+        (slideOnly && target.pointerMode !== "slide") ||
+        (path && !path.includes(target.container)) ||
+        (hit && hit.pointerPriority > target.pointerPriority) ||
+        !target.hitTest(clientX, clientY)
+      )
+        return;
+      hit = target;
+    });
+    return hit;
+  }
+
+  // ***<< EVENT HANDLERS >>***
+
+  /**
+   * Pointer Down
+   *
+   * Assigns the pointer to the target under it, pointers that go down outside every container are not tracked
+   */
+  private down(e: PointerEvent) {
+    if (this.pointers.has(e.pointerId)) return;
+    const path = e.composedPath();
+    if (!this.targets.some((target) => path.includes(target.container))) return;
+    const target = this.targetAt(e.clientX, e.clientY, false, path);
+    this.pointers.set(e.pointerId, target);
+    target?.pointerDown(e);
+  }
+
+  /**
+   * Pointer Move
+   *
+   * Forwards the move to the owner, a pointer on no target or on a slide target slides between slide targets
+   */
+  private move(e: PointerEvent) {
+    if (!this.pointers.has(e.pointerId)) return;
+    const owner = this.pointers.get(e.pointerId);
+    if (
+      owner &&
+      (owner.pointerMode === "capture" || owner.hitTest(e.clientX, e.clientY))
+    ) {
+      owner.pointerMove(e);
+      return;
+    }
+
+    // the slide target under the pointer
+    const target = this.targetAt(e.clientX, e.clientY, true);
+    if (owner && !target && owner.holdsPointer?.(e)) {
+      owner.pointerMove(e);
+      return;
+    }
+
+    // slide out of the owner
+    if (owner) {
+      this.pointers.set(e.pointerId, undefined);
+      owner.pointerUp(e);
+    }
+    // slide into the slide target under the pointer
+    if (target) {
+      this.pointers.set(e.pointerId, target);
+      target.pointerDown(e);
+    }
+  }
+
+  /**
+   * Pointer Up
+   *
+   * Releases the owner of the pointer and stops tracking it
+   */
+  private up(e: PointerEvent) {
+    if (!this.pointers.has(e.pointerId)) return;
+    const owner = this.pointers.get(e.pointerId);
+    this.pointers.delete(e.pointerId);
+    owner?.pointerUp(e);
+  }
+}
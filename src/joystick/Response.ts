@@ -0,0 +1,114 @@
+/**
+ * Response 🎮 - Dead zones and response curves for analog input
+ *
+ * Maps a normalized stick position to the output value the game receives.
+ */
+
+// Shape of the dead zone
+// radial - applied to the distance from the center (keeps the direction)
+// axial - applied to each axis on its own
+export type DeadZoneMode = "radial" | "axial";
+
+// Response curve applied to the input after the dead zones
+export type ResponseCurve =
+  | "linear"
+  | "quadratic"
+  | "cubic"
+  | "exponential"
+  | ((t: number) => number);
+
+// Options for mapping analog input
+export interface ResponseOptions {
+  // inner dead zone, input below it reads as 0 (0 - 1, default: 0)
+  deadZone?: number;
+  // outer dead zone, input within it of the edge reads as 1 (0 - 1, default: 0)
+  outerDeadZone?: number;
+  // dead zone mode (default: radial)
+  deadZoneMode?: DeadZoneMode;
+  // response curve (default: linear)
+  responseCurve?: ResponseCurve;
+  // factor of the exponential response curve (default: 3)
+  responseFactor?: number;
+}
+
+/**
+ * Apply Response Curve
+ *
+ * Maps t in [0, 1] to [0, 1]
+ */
+export function applyResponseCurve(
+  t: number,
+  curve: ResponseCurve = "linear",
+  factor: number = 3
+): number {
+  if (typeof curve === "function") return Math.max(0, Math.min(1, curve(t)));
+  switch (curve) {
+    case "quadratic":
+      return t * t;
+    case "cubic":
+      return t * t * t;
+    case "exponential":
+      return factor === 0
+        ? t
+        : (Math.exp(factor * t) - 1) / (Math.exp(factor) - 1);
+    default:
+      return t;
+  }
+}
+
+/**
+ * Rescale
+ *
+ * Maps a magnitude in [0, 1] to [0, 1] between the inner and outer dead zones and applies the curve
+ */
+function rescale(magnitude: number, options: ResponseOptions): number {
+  const inner = options.deadZone || 0;
+  const outer = options.outerDeadZone || 0;
+  if (magnitude <= inner) return 0;
+  const t = Math.min(1, (magnitude - inner) / (1 - inner - outer));
+  return applyResponseCurve(t, options.responseCurve, options.responseFactor);
+}
+
+/**
+ * Validate Response Options
+ *
+ * Throws if the dead zones are out of range
+ */
+export function validateResponseOptions(options: ResponseOptions) {
+  const inner = options.deadZone || 0;
+  const outer = options.outerDeadZone || 0;
+  if (inner < 0 || outer < 0 || inner + outer >= 1) {
+    throw new Error(
+      "Dead zones must be positive and deadZone + outerDeadZone must be less than 1!"
+    );
+  }
+}
+
+/**
+ * Apply Response
+ *
+ * Applies the dead zones and the response curve to a normalized stick position (x, y in [-1, 1]).
+ * The result is written to out so it can be called on every pointer move without allocating.
+ */
+export function applyResponse(
+  x: number,
+  y: number,
+  options: ResponseOptions,
+  out: { x: number; y: number }
+) {
+  if (options.deadZoneMode === "axial") {
+    out.x = Math.sign(x) * rescale(Math.abs(x), options);
+    out.y = Math.sign(y) * rescale(Math.abs(y), options);
+    return out;
+  }
+  const magnitude = Math.hypot(x, y);
+  if (magnitude === 0) {
+    out.x = 0;
+    out.y = 0;
+    return out;
+  }
+  const scale = rescale(Math.min(1, magnitude), options) / magnitude;
+  out.x = x * scale;
+  out.y = y * scale;
+  return out;
+}
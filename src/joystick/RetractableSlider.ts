@@ -4,10 +4,31 @@
  * A slider is a slider that retracts back to 0 when released.
  */
 
+import { AnchorOptions } from "./Anchor";
+import { BaseController, definedOptions } from "./BaseController";
+import { HitShape, HitShapeType, resolveHitShape } from "./HitShape";
+import { applyTheme, resolveTheme, Theme, ThemeName, themeVar } from "./Theme";
+
 type direction = "vertical" | "horizontal";
 
+// Events emitted by the RetractableSlider
+export type RetrackableSliderEvents = {
+  // slide - the slider value (0 - 100) changed
+  slide: (value: number) => void;
+  // release - the slider was released and retracted back to 0
+  release: () => void;
+};
+
+// State of the RetractableSlider
+export interface RetrackableSliderState {
+  // value - slider value (0 - 100)
+  value: number;
+  // isPressed - true while the slider is held
+  isPressed: boolean;
+}
+
 // Options for RetractableSlider
-export interface RetrackableSliderOptions {
+export interface RetrackableSliderOptions extends AnchorOptions {
   // unique id for the slider
   uid?: string;
   // container element of the slider (default: body)
@@ -31,17 +52,32 @@ export interface RetrackableSliderOptions {
   // direction of the slider to rotate (default: vertical)
   // can be either vertical or horizontal
   direction?: direction;
-  // callbacks
+  // built-in theme name or theme properties (default: the theme inherited from the container)
+  theme?: ThemeName | Theme;
+  // region that accepts touches with an optional padding (default: rounded-rect with the border radius)
+  hitShape?: HitShapeType | HitShape;
+  // callbacks (subscribed to the "slide" and "release" events)
   onSlideCallback?: (value: number) => void;
   onReleaseCallback?: () => void;
   // verbose logging (default: false)
   verboseLogging?: boolean;
 }
 
+// Options that can be changed with update()
+export type RetrackableSliderUpdateOptions = Partial<
+  Omit<
+    RetrackableSliderOptions,
+    "uid" | "container" | "onSlideCallback" | "onReleaseCallback"
+  >
+>;
+
 /**
  * RetractableSlider Controller 🎮 - A class for on-screen retractable slider.
  */
-export class RetrackableSlider {
+export class RetrackableSlider extends BaseController<
+  RetrackableSliderEvents,
+  RetrackableSliderState
+> {
   // uid - unique id of the slider
   uid: string;
   // container - container element for the slider
@@ -64,12 +100,6 @@ export class RetrackableSlider {
   borderRadius: string;
   // direction of the slider
   direction: string;
-  // callbacks
-  // onSlide - callback when the slider is sliding
-  onSlideCallback?: (value: number) => void;
-  // onRelease - callback when the slider is released
-  onReleaseCallback?: () => void;
-
   // verbose logging
   verboseLogging: boolean;
 
@@ -81,9 +111,12 @@ export class RetrackableSlider {
   isPressed: boolean;
   // slider value
   valuePercent: number;
+  // state snapshot returned by getState
+  state: RetrackableSliderState = { value: 0, isPressed: false };
 
   // constructor
   constructor(options: RetrackableSliderOptions) {
+    super();
     // set uid or generate a new one
     this.uid = options.uid || Math.random().toString(36).substring(7);
     // container
@@ -104,21 +137,23 @@ export class RetrackableSlider {
     this.borderWidth = options.borderWidth || "2px";
     // border radius
     this.borderRadius = options.borderRadius || "2px";
+    // theme (the colors and borders given as options are scoped to this slider)
+    this.theme = resolveTheme(options.theme, {
+      accentColor: options.color,
+      borderColor: options.borderColor,
+      borderWidth: options.borderWidth,
+      borderRadius: options.borderRadius,
+    });
     // direction
     this.direction = options.direction || "vertical";
+    // hit region
+    this.hitShape = resolveHitShape(options.hitShape, "rounded-rect");
     // assert that diretion is either vertical or horizontal
 
     // callbacks
-    this.onSlideCallback =
-      options.onSlideCallback ||
-      ((value: number) => {
-        console.log(`[RetrackableSlider:${this.uid}] Sliding: ${value}`);
-      });
-    this.onReleaseCallback =
-      options.onReleaseCallback ||
-      (() => {
-        console.log(`[RetrackableSlider:${this.uid}] Released`);
-      });
+    if (options.onSlideCallback) this.on("slide", options.onSlideCallback);
+    if (options.onReleaseCallback)
+      this.on("release", options.onReleaseCallback);
 
     // verbose logging
     this.verboseLogging = options.verboseLogging || false;
@@ -133,6 +168,9 @@ export class RetrackableSlider {
     this.baseSlider = document.createElement("div");
     this.baseSlider.id = `ts-retrackable-slider-${this.uid}-cursor`;
 
+    // anchor (replaces top / left)
+    this.setAnchor(options);
+
     // call init
     this.init();
   }
@@ -154,9 +192,31 @@ export class RetrackableSlider {
     this.log("Initializing RetrackableSlider...");
 
     // render UI
+    this.render();
+
+    // add event listeners
+    // Mouse and touch events (pointers are assigned by the pointer manager)
+    this.trackPointers();
+
+    // Window resize event
+    this.listen(window, "resize", () => this.updateContainerRectangle());
+
+    // Prevent select context events
+    this.listen(this.base, "selectstart", (e: Event) => e.preventDefault());
+    this.listen(this.base, "contextmenu", (e: Event) => e.preventDefault());
+    // monkey patch preventDefault for touch events (on mobile devies)
+    this.listen(this.base, "touchstart", (e: TouchEvent) => {
+      e.preventDefault();
+    });
+  }
+
+  /**
+   * Render
+   */
+  render() {
     // base
     this.base.style.cssText = `
-        position: fixed;
+        position: absolute;
         top: ${this.top};
         left: ${this.left};
         width: ${this.width};
@@ -164,9 +224,14 @@ export class RetrackableSlider {
         transform: translate(-50%, -50%);
         margin: 0;
         padding: 0;
-        opacity: 0.4;
-        border: ${this.borderWidth} solid ${this.borderColor};
-        border-radius: ${this.borderRadius};
+        opacity: ${themeVar("opacity", "0.4")};
+        background-color: ${themeVar("color", "transparent")};
+        border: ${themeVar("borderWidth", this.borderWidth)} solid ${themeVar(
+      "borderColor",
+      this.borderColor
+    )};
+        border-radius: ${themeVar("borderRadius", this.borderRadius)};
+        box-shadow: ${themeVar("shadow", "none")};
         /* Prevent ui glitches */
         z-index: 1000;
         touch-action: none;
@@ -185,8 +250,8 @@ export class RetrackableSlider {
         position: absolute;
         transition: background-color 0.2s ease;
         /* opacity: 0.7%; */
-        background: ${this.color};
-        backdrop-filter: blur(10px);
+        background: ${themeVar("accentColor", this.color)};
+        backdrop-filter: ${themeVar("backdropFilter", "blur(10px)")};
         /* Prevent ui glitches */
         pointer-events: none;
         `;
@@ -208,27 +273,36 @@ export class RetrackableSlider {
       this.baseSlider.style.width = "0%";
     }
 
-    this.base.appendChild(this.baseSlider);
-    this.container.appendChild(this.base);
-
-    // add event listeners
-    // Mouse and touch events
-    this.base.addEventListener("pointerup", this.onSliderUp.bind(this));
-    this.base.addEventListener("pointerdown", this.onSliderDown.bind(this));
-    this.base.addEventListener("pointermove", this.onSliderMove.bind(this));
-    // release if out of bounds
-    this.base.addEventListener("pointercancel", this.onSliderUp.bind(this));
-
-    // Window resize event
-    window.addEventListener("resize", this.updateContainerRectangle.bind(this));
+    applyTheme(this.base, this.theme);
+    if (this.baseSlider.parentNode !== this.base)
+      this.base.appendChild(this.baseSlider);
+    if (this.base.parentNode !== this.container)
+      this.container.appendChild(this.base);
+  }
 
-    // Prevent select context events
-    this.base.addEventListener("selectstart", (e: Event) => e.preventDefault());
-    this.base.addEventListener("contextmenu", (e: Event) => e.preventDefault());
-    // monkey patch preventDefault for touch events (on mobile devies)
-    this.base.addEventListener("touchstart", (e: TouchEvent) => {
-      e.preventDefault();
+  /**
+   * Update
+   *
+   * Changes options after construction and renders the slider again, a held value is kept
+   */
+  update(options: RetrackableSliderUpdateOptions) {
+    const { theme, anchor, offsetX, offsetY, safeArea, hitShape, ...changes } =
+      definedOptions(options);
+    Object.assign(this, changes);
+    if (hitShape !== undefined)
+      this.hitShape = resolveHitShape(hitShape, "rounded-rect");
+    this.theme = resolveTheme(theme || this.theme, {
+      accentColor: options.color,
+      borderColor: options.borderColor,
+      borderWidth: options.borderWidth,
+      borderRadius: options.borderRadius,
     });
+    this.updateAnchor(options);
+
+    // keep the input state: the slider value
+    this.render();
+    this.updateUI();
+    this.updateContainerRectangle();
   }
 
   /**
@@ -257,36 +331,80 @@ export class RetrackableSlider {
     this.baseRect = this.base.getBoundingClientRect();
   }
 
+  /**
+   * Anchor Box
+   *
+   * The slider is centered on top / left
+   */
+  anchorBox() {
+    return { width: this.width, height: this.height, centered: true };
+  }
+
+  /**
+   * Get State
+   *
+   * Returns the current slider value
+   */
+  getState() {
+    this.state.value = this.valuePercent;
+    this.state.isPressed = this.isPressed;
+    return this.state;
+  }
+
+  /**
+   * Release
+   *
+   * Retracts the slider back to 0
+   */
+  release() {
+    this.isPressed = false;
+    if (this.valuePercent !== 0) {
+      this.valuePercent = 0;
+      this.updateUI();
+      // emit events
+      this.emit("release");
+    }
+  }
+
   // ***<< EVENT HANDLERS >>***
 
+  /**
+   * Pointer Down / Move / Up
+   *
+   * Called by the pointer manager for the pointer assigned to the slider
+   */
+  pointerDown(e: PointerEvent) {
+    this.onSliderDown(e);
+  }
+
+  pointerMove(e: PointerEvent) {
+    this.onSliderMove(e);
+  }
+
+  pointerUp(e: PointerEvent) {
+    this.onSliderUp(e);
+  }
+
   /**
    * Handle Slider Down
    */
   onSliderUp(e: PointerEvent) {
+    if (!this.isEnabled) return;
     // log
     this.log("Slider Up");
 
     // prevent default
     e.preventDefault();
 
-    // set isPressed to false
-    this.isPressed = false;
-
-    // reset value
-    if (this.valuePercent !== 0) {
-      this.valuePercent = 0;
-      this.updateUI();
-      // call callbacks
-      if (this.onReleaseCallback) {
-        this.onReleaseCallback.call(this);
-      }
-    }
+    // release and reset value
+    this.release();
   }
 
   /**
    * Handle Slider Down
    */
   onSliderDown(e: PointerEvent) {
+    if (!this.isEnabled) return;
     // log
     this.log("Slider Down");
 
@@ -295,15 +413,12 @@ export class RetrackableSlider {
 
     // set isPressed to true
     this.isPressed = true;
-    this.base.setPointerCapture(e.pointerId);
 
     // update container rectangle
     this.updateContainerRectangle();
 
-    // call callbacks
-    if (this.onSlideCallback) {
-      this.onSlideCallback.call(this, this.valuePercent);
-    }
+    // emit events
+    this.emit("slide", this.valuePercent);
   }
 
   /**
@@ -313,8 +428,8 @@ export class RetrackableSlider {
     // prevent default
     e.preventDefault();
 
-    // check if the slider is pressed
-    if (!this.isPressed) return;
+    // check if the slider is enabled and pressed
+    if (!this.isEnabled || !this.isPressed) return;
 
     // update container rectangle
     this.updateContainerRectangle();
@@ -336,10 +451,8 @@ export class RetrackableSlider {
       this.valuePercent = value;
       this.updateUI();
       this.log(`Slider Value: ${this.valuePercent}`);
-      // call callbacks
-      if (this.onSlideCallback) {
-        this.onSlideCallback.call(this, this.valuePercent);
-      }
+      // emit events
+      this.emit("slide", this.valuePercent);
     }
   }
 }
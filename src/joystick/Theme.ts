@@ -0,0 +1,167 @@
+/**
+ * Theme 🎮 - Style the controllers with CSS custom properties
+ *
+ * Every visual property of the controllers reads a CSS custom property (--ts-color, --ts-opacity, ...)
+ * that falls back to the default look. A theme sets these properties on a controller, a layout container
+ * or the whole document, so the controls can match the art style of a game and be restyled live.
+ */
+
+// Visual properties of the controllers
+export interface Theme {
+  // main color (joystick base, D-pad arms, button, slider track)
+  color?: string;
+  // accent color (joystick thumb, pressed D-pad arm, slider fill)
+  accentColor?: string;
+  // border color and width
+  borderColor?: string;
+  borderWidth?: string;
+  // corner radius of buttons and sliders
+  borderRadius?: string;
+  // opacity while idle and while pressed
+  opacity?: string;
+  activeOpacity?: string;
+  // box shadow
+  shadow?: string;
+  // backdrop filter (the glass effect)
+  backdropFilter?: string;
+}
+
+// Built-in themes
+export type ThemeName = "glass" | "flat" | "high-contrast" | "retro";
+
+// CSS custom property of every theme property
+export const themeProperties: { [property in keyof Theme]-?: string } = {
+  color: "--ts-color",
+  accentColor: "--ts-accent-color",
+  borderColor: "--ts-border-color",
+  borderWidth: "--ts-border-width",
+  borderRadius: "--ts-border-radius",
+  opacity: "--ts-opacity",
+  activeOpacity: "--ts-active-opacity",
+  shadow: "--ts-shadow",
+  backdropFilter: "--ts-backdrop-filter",
+};
+
+// Built-in themes by name
+export const themes: { [name in ThemeName]: Theme } = {
+  glass: {
+    color: "rgba(255, 255, 255, 0.25)",
+    accentColor: "rgba(255, 255, 255, 0.85)",
+    borderColor: "rgba(255, 255, 255, 0.4)",
+    borderWidth: "1px",
+    opacity: "0.7",
+    activeOpacity: "1",
+    shadow: "0 8px 32px 0 rgba(31, 38, 135, 0.37), inset 0 0 0 1px #FFFFFF2E",
+    backdropFilter: "blur(10px)",
+  },
+  flat: {
+    color: "#95A5A6",
+    accentColor: "#2C3E50",
+    borderColor: "#7F8C8D",
+    borderWidth: "0px",
+    opacity: "0.8",
+    activeOpacity: "1",
+    shadow: "none",
+    backdropFilter: "none",
+  },
+  "high-contrast": {
+    color: "#000000",
+    accentColor: "#FFFF00",
+    borderColor: "#FFFFFF",
+    borderWidth: "4px",
+    opacity: "1",
+    activeOpacity: "1",
+    shadow: "0 0 0 2px #000000",
+    backdropFilter: "none",
+  },
+  retro: {
+    color: "#3B3B58",
+    accentColor: "#E63946",
+    borderColor: "#1D1D2C",
+    borderWidth: "4px",
+    borderRadius: "0px",
+    opacity: "0.9",
+    activeOpacity: "1",
+    shadow: "4px 4px 0 0 #1D1D2C",
+    backdropFilter: "none",
+  },
+};
+
+/**
+ * Is Theme Name
+ *
+ * True for the name of a built-in theme (own keys only, "toString" or "constructor" is no theme)
+ */
+export function isThemeName(name: string): name is ThemeName {
+  return Object.prototype.hasOwnProperty.call(themes, name);
+}
+
+/**
+ * Is Theme Property
+ *
+ * True for the name of a theme property (own keys only, like isThemeName)
+ */
+export function isThemeProperty(property: string): property is keyof Theme {
+  return Object.prototype.hasOwnProperty.call(themeProperties, property);
+}
+
+/**
+ * Resolve Theme
+ *
+ * Looks up a built-in theme by name and applies the overrides (undefined overrides are skipped)
+ */
+export function resolveTheme(
+  theme: ThemeName | Theme = {},
+  overrides: Theme = {}
+): Theme {
+  if (typeof theme === "string" && !isThemeName(theme)) {
+    throw new Error(
+      `Unknown theme "${theme}", expected one of ${Object.keys(themes).join(
+        ", "
+      )}!`
+    );
+  }
+  const resolved: Theme = {
+    ...(typeof theme === "string" ? themes[theme] : theme),
+  };
+  (Object.keys(overrides) as (keyof Theme)[]).forEach((property) => {
+    if (overrides[property] !== undefined)
+      resolved[property] = overrides[property];
+  });
+  return resolved;
+}
+
+/**
+ * Apply Theme
+ *
+ * Sets the custom properties of a theme on an element and removes the ones the theme does not set
+ */
+export function applyTheme(element: HTMLElement | SVGElement, theme: Theme) {
+  (Object.keys(themeProperties) as (keyof Theme)[]).forEach((property) => {
+    const value = theme[property];
+    if (value === undefined)
+      element.style.removeProperty(themeProperties[property]);
+    else element.style.setProperty(themeProperties[property], value);
+  });
+}
+
+/**
+ * Theme Var
+ *
+ * CSS var() of a theme property with the default value as fallback
+ */
+export function themeVar(property: keyof Theme, fallback: string) {
+  return `var(${themeProperties[property]}, ${fallback})`;
+}
+
+/**
+ * Set Theme
+ *
+ * Applies a theme to every controller inside the target (default: the whole document)
+ */
+export function setTheme(
+  theme: ThemeName | Theme,
+  target: HTMLElement = document.documentElement
+) {
+  applyTheme(target, resolveTheme(theme));
+}
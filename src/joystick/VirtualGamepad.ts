@@ -0,0 +1,256 @@
+/**
+ * Virtual Gamepad 🎮 - The on-screen controllers as a W3C Gamepad
+ *
+ * Composes the on-screen controllers into an object that implements the Gamepad interface
+ * with the standard mapping. The optional shim adds it to navigator.getGamepads(), so games
+ * and emulators that only read the Gamepad API can be played with touch controls.
+ */
+
+import { ButtonController } from "./Button";
+import { DpadController } from "./Dpad";
+import { JoysickController } from "./Joystick";
+import { RetrackableSlider } from "./RetractableSlider";
+
+// Number of buttons in the standard mapping
+const STANDARD_BUTTONS = 17;
+
+// Options for the Virtual Gamepad
+export interface VirtualGamepadOptions {
+  // id of the gamepad (default: "ts-stick Virtual Gamepad (STANDARD GAMEPAD)")
+  id?: string;
+  // index of the gamepad in navigator.getGamepads() (default: first free index when the shim is installed)
+  index?: number;
+  // left stick (axes 0 and 1)
+  joystick?: JoysickController;
+  // right stick (axes 2 and 3)
+  rightJoystick?: JoysickController;
+  // d-pad (buttons 12 - 15)
+  dpad?: DpadController;
+  // buttons by standard mapping index (0: A, 1: B, 2: X, 3: Y, ...)
+  buttons?: { [index: number]: ButtonController };
+  // analog buttons by standard mapping index (6: left trigger, 7: right trigger)
+  sliders?: { [index: number]: RetrackableSlider };
+  // slider value (0 - 1) at which an analog button counts as pressed (default: 0.1)
+  pressThreshold?: number;
+}
+
+/**
+ * Virtual Gamepad Button
+ */
+export class VirtualGamepadButton implements GamepadButton {
+  pressed: boolean = false;
+  touched: boolean = false;
+  value: number = 0;
+}
+
+/**
+ * Virtual Haptic Actuator
+ *
+ * Rumble falls back to navigator.vibrate
+ */
+export class VirtualHapticActuator implements GamepadHapticActuator {
+  effects: GamepadHapticEffectType[] = ["dual-rumble"];
+  type: GamepadHapticEffectType = "dual-rumble";
+
+  playEffect(_: GamepadHapticEffectType, params?: GamepadEffectParameters) {
+    if (navigator.vibrate) navigator.vibrate(params?.duration || 0);
+    return Promise.resolve<GamepadHapticsResult>("complete");
+  }
+
+  reset() {
+    if (navigator.vibrate) navigator.vibrate(0);
+    return Promise.resolve<GamepadHapticsResult>("complete");
+  }
+}
+
+/**
+ * Virtual Gamepad
+ */
+export class VirtualGamepad implements Gamepad {
+  // Gamepad interface
+  id: string;
+  index: number;
+  connected: boolean = true;
+  mapping: GamepadMappingType = "standard";
+  timestamp: number = 0;
+  axes: number[] = [0, 0, 0, 0];
+  buttons: VirtualGamepadButton[] = [];
+  vibrationActuator = new VirtualHapticActuator();
+  // composed controllers
+  joystick?: JoysickController;
+  rightJoystick?: JoysickController;
+  dpad?: DpadController;
+  controllerButtons: { [index: number]: ButtonController };
+  sliders: { [index: number]: RetrackableSlider };
+  pressThreshold: number;
+
+  /**
+   * Create a new Virtual Gamepad
+   */
+  constructor(options: VirtualGamepadOptions = {}) {
+    this.id = options.id || "ts-stick Virtual Gamepad (STANDARD GAMEPAD)";
+    this.index = options.index === undefined ? -1 : options.index;
+    this.joystick = options.joystick;
+    this.rightJoystick = options.rightJoystick;
+    this.dpad = options.dpad;
+    this.controllerButtons = options.buttons || {};
+    this.sliders = options.sliders || {};
+    this.pressThreshold =
+      options.pressThreshold === undefined ? 0.1 : options.pressThreshold;
+    for (let index = 0; index < STANDARD_BUTTONS; index++) {
+      this.buttons.push(new VirtualGamepadButton());
+    }
+    this.update();
+  }
+
+  /**
+   * Set Button
+   *
+   * Updates a button and returns true if it changed
+   */
+  setButton(index: number, value: number, touched: boolean) {
+    const button = this.buttons[index];
+    const pressed = value > 0 && value >= this.pressThreshold;
+    if (
+      button.value === value &&
+      button.pressed === pressed &&
+      button.touched === touched
+    ) {
+      return false;
+    }
+    button.value = value;
+    button.pressed = pressed;
+    button.touched = touched;
+    return true;
+  }
+
+  /**
+   * Update
+   *
+   * Reads the composed controllers, the timestamp changes when any value changed
+   */
+  update() {
+    let changed = false;
+
+    // sticks
+    const sticks = [this.joystick, this.rightJoystick];
+    sticks.forEach((joystick, stick) => {
+      const x = joystick ? joystick.state.x : 0;
+      const y = joystick ? joystick.state.y : 0;
+      if (this.axes[stick * 2] !== x || this.axes[stick * 2 + 1] !== y) {
+        this.axes[stick * 2] = x;
+        this.axes[stick * 2 + 1] = y;
+        changed = true;
+      }
+    });
+
+    // buttons
+    this.buttons.forEach((_, index) => {
+      // the d-pad sets buttons 12 - 15 below
+      if (this.dpad && index >= 12 && index <= 15) return;
+      const button = this.controllerButtons[index];
+      const slider = this.sliders[index];
+      let value = 0;
+      let touched = false;
+      if (button) {
+        // analog buttons are reported like triggers
+        value = button.analog ? button.hold.value : button.isPressed ? 1 : 0;
+        touched = button.isPressed;
+      } else if (slider) {
+        value = slider.valuePercent / 100;
+        touched = slider.isPressed;
+      }
+      if (this.setButton(index, value, touched)) changed = true;
+    });
+
+    // d-pad (buttons 12 - 15)
+    if (this.dpad) {
+      const { up, down, left, right, isPressed } = this.dpad.getState();
+      [up, down, left, right].forEach((pressed, offset) => {
+        if (this.setButton(12 + offset, pressed ? 1 : 0, isPressed))
+          changed = true;
+      });
+    }
+
+    if (changed) this.timestamp = performance.now();
+    return this;
+  }
+}
+
+// Virtual gamepads added by installed shims
+const shimmedGamepads: VirtualGamepad[] = [];
+// native navigator.getGamepads, restored when the last shim is removed
+let nativeDescriptor: PropertyDescriptor | undefined;
+let nativeGetGamepads: () => (Gamepad | null)[] = () => [];
+
+/**
+ * Install Gamepad Shim
+ *
+ * Adds a Virtual Gamepad to navigator.getGamepads() and dispatches gamepadconnected.
+ * Returns a function that removes the shim again and dispatches gamepaddisconnected.
+ * Several shims can be installed at once, the native getGamepads is restored when the last one is removed.
+ */
+export function installGamepadShim(gamepad: VirtualGamepad): () => void {
+  // replace the native getGamepads with the first shim
+  if (shimmedGamepads.length === 0) {
+    nativeDescriptor = Object.getOwnPropertyDescriptor(
+      navigator,
+      "getGamepads"
+    );
+    nativeGetGamepads = navigator.getGamepads
+      ? navigator.getGamepads.bind(navigator)
+      : () => [];
+    Object.defineProperty(navigator, "getGamepads", {
+      configurable: true,
+      writable: true,
+      value: () => {
+        const gamepads: (Gamepad | null)[] = Array.from(nativeGetGamepads());
+        shimmedGamepads.forEach((shimmed) => {
+          while (gamepads.length <= shimmed.index) gamepads.push(null);
+          gamepads[shimmed.index] = shimmed.update();
+        });
+        return gamepads;
+      },
+    });
+  }
+
+  // pick the first free index
+  if (gamepad.index < 0) {
+    const gamepads = navigator.getGamepads();
+    let index = 0;
+    while (gamepads[index]) index++;
+    gamepad.index = index;
+  }
+
+  // add the virtual gamepad to the native gamepads
+  gamepad.connected = true;
+  shimmedGamepads.push(gamepad);
+  dispatchGamepadEvent("gamepadconnected", gamepad);
+
+  return () => {
+    const index = shimmedGamepads.indexOf(gamepad);
+    if (index === -1) return;
+    shimmedGamepads.splice(index, 1);
+    gamepad.connected = false;
+    // restore the native getGamepads with the last shim
+    if (shimmedGamepads.length === 0) {
+      if (nativeDescriptor)
+        Object.defineProperty(navigator, "getGamepads", nativeDescriptor);
+      else delete (navigator as { getGamepads?: unknown }).getGamepads;
+      nativeDescriptor = undefined;
+      nativeGetGamepads = () => [];
+    }
+    dispatchGamepadEvent("gamepaddisconnected", gamepad);
+  };
+}
+
+/**
+ * Dispatch Gamepad Event
+ *
+ * The GamepadEvent constructor only accepts native gamepads, so the gamepad is added to a plain event
+ */
+function dispatchGamepadEvent(type: string, gamepad: VirtualGamepad) {
+  const event = new Event(type);
+  Object.defineProperty(event, "gamepad", { value: gamepad });
+  window.dispatchEvent(event);
+}
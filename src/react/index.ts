@@ -0,0 +1,137 @@
+/**
+ * React 🎮 - Components and hooks for React
+ *
+ * <Joystick>, <Dpad>, <Button> and <Slider> render a container and mount the controller in an effect.
+ * Changed props are applied with update(), handler props (onMove, onPress, ...) always call the latest
+ * function and the controller is destroyed on unmount. The hooks do the same for your own container.
+ */
+
+import {
+  createElement,
+  CSSProperties,
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import {
+  BindingController,
+  BindingProps,
+  ButtonProps,
+  ControllerBinding,
+  DpadProps,
+  JoystickProps,
+  SliderProps,
+} from "../joystick/Bindings";
+import { LayoutControlType } from "../joystick/Layout";
+
+export type {
+  ButtonProps,
+  DpadProps,
+  JoystickProps,
+  SliderProps,
+} from "../joystick/Bindings";
+
+// Props of the container rendered by a component
+interface ContainerProps {
+  className?: string;
+  style?: CSSProperties;
+}
+
+// Default style of the container, the controls are centered in it unless top / left / anchor are set
+const containerStyle: CSSProperties = {
+  position: "relative",
+  width: "100%",
+  height: "100%",
+  touchAction: "none",
+};
+
+/**
+ * Use Controller
+ *
+ * Mounts a controller in the element of the returned ref
+ */
+export function useController<Type extends LayoutControlType>(
+  type: Type,
+  props: BindingProps<Type>
+) {
+  const ref = useRef<HTMLDivElement>(null);
+  const binding = useRef<ControllerBinding<Type>>();
+  const [controller, setController] = useState<BindingController<Type>>();
+
+  // mount once, the props of the first render create the controller
+  useEffect(() => {
+    if (!ref.current) return;
+    binding.current = new ControllerBinding(type, ref.current, props);
+    setController(binding.current.controller);
+    return () => {
+      binding.current?.destroy();
+      binding.current = undefined;
+      setController(undefined);
+    };
+  }, [type]);
+
+  // apply the props of every render (unchanged props are skipped)
+  useEffect(() => {
+    if (!binding.current) return;
+    setController(binding.current.update(props));
+  });
+
+  return { ref, controller };
+}
+
+/**
+ * Use Joystick
+ */
+export const useJoystick = (props: JoystickProps) =>
+  useController("joystick", props);
+
+/**
+ * Use D-pad
+ */
+export const useDpad = (props: DpadProps) => useController("dpad", props);
+
+/**
+ * Use Button
+ */
+export const useButton = (props: ButtonProps) => useController("button", props);
+
+/**
+ * Use Slider
+ */
+export const useSlider = (props: SliderProps) => useController("slider", props);
+
+/**
+ * Controller Component
+ *
+ * Creates the component of a control type, its ref is the controller
+ */
+function controllerComponent<Type extends LayoutControlType>(
+  type: Type,
+  displayName: string
+) {
+  const component = forwardRef<
+    BindingController<Type> | undefined,
+    BindingProps<Type> & ContainerProps
+  >((componentProps, forwardedRef) => {
+    const { className, style, ...props } = componentProps as ContainerProps;
+    const { ref, controller } = useController(
+      type,
+      props as unknown as BindingProps<Type>
+    );
+    useImperativeHandle(forwardedRef, () => controller, [controller]);
+    return createElement("div", {
+      ref,
+      className,
+      style: { ...containerStyle, ...style },
+    });
+  });
+  component.displayName = displayName;
+  return component;
+}
+
+export const Joystick = controllerComponent("joystick", "Joystick");
+export const Dpad = controllerComponent("dpad", "Dpad");
+export const Button = controllerComponent("button", "Button");
+export const Slider = controllerComponent("slider", "Slider");
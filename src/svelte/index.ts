@@ -0,0 +1,112 @@
+/**
+ * Svelte 🎮 - Actions and stores for Svelte
+ *
+ * use:joystick, use:dpad, use:button and use:slider mount the controller in an element. The action
+ * parameter holds the options and the handlers (onMove, onPress, ...), a changed parameter is applied
+ * with update() and the controller is destroyed when the element is removed. useJoystick() and friends
+ * return the action with a readable store of the controller.
+ */
+
+import {
+  BindingController,
+  BindingProps,
+  ControllerBinding,
+} from "../joystick/Bindings";
+import { LayoutControlType } from "../joystick/Layout";
+
+export type {
+  ButtonProps,
+  DpadProps,
+  JoystickProps,
+  SliderProps,
+} from "../joystick/Bindings";
+
+// Return value of a Svelte action
+export interface ControllerActionReturn<Props> {
+  update: (props: Props) => void;
+  destroy: () => void;
+}
+
+// Readable store (the Svelte store contract, usable with $store)
+export interface ControllerStore<Controller> {
+  subscribe: (run: (value: Controller | undefined) => void) => () => void;
+}
+
+/**
+ * Controller Action
+ *
+ * Creates the action of a control type, onController is called with every new controller
+ */
+function controllerAction<Type extends LayoutControlType>(
+  type: Type,
+  onController?: (controller: BindingController<Type> | undefined) => void
+) {
+  return (
+    node: HTMLElement,
+    // use:joystick without a parameter passes undefined
+    props: BindingProps<Type> = {} as BindingProps<Type>
+  ): ControllerActionReturn<BindingProps<Type>> => {
+    const binding = new ControllerBinding(type, node, props);
+    onController?.(binding.controller);
+    return {
+      update: (props = {} as BindingProps<Type>) =>
+        onController?.(binding.update(props)),
+      destroy: () => {
+        binding.destroy();
+        onController?.(undefined);
+      },
+    };
+  };
+}
+
+export const joystick = controllerAction("joystick");
+export const dpad = controllerAction("dpad");
+export const button = controllerAction("button");
+export const slider = controllerAction("slider");
+
+/**
+ * Use Controller
+ *
+ * Returns an action and a store that holds the controller while the element is mounted
+ */
+export function useController<Type extends LayoutControlType>(type: Type) {
+  let value: BindingController<Type> | undefined;
+  const subscribers = new Set<
+    (value: BindingController<Type> | undefined) => void
+  >();
+
+  const controller: ControllerStore<BindingController<Type>> = {
+    subscribe: (run) => {
+      subscribers.add(run);
+      run(value);
+      return () => subscribers.delete(run);
+    },
+  };
+  const action = controllerAction(type, (next) => {
+    if (next === value) return;
+    value = next;
+    subscribers.forEach((run) => run(value));
+  });
+
+  return { action, controller };
+}
+
+/**
+ * Use Joystick
+ */
+export const useJoystick = () => useController("joystick");
+
+/**
+ * Use D-pad
+ */
+export const useDpad = () => useController("dpad");
+
+/**
+ * Use Button
+ */
+export const useButton = () => useController("button");
+
+/**
+ * Use Slider
+ */
+export const useSlider = () => useController("slider");
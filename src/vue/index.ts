@@ -0,0 +1,159 @@
+/**
+ * Vue 🎮 - Components and composables for Vue 3
+ *
+ * <Joystick>, <Dpad>, <Button> and <Slider> render a container and mount the controller when mounted.
+ * Attributes are the options (radius, dead-zone, theme, ...) and listeners are the events (@move, @press,
+ * @direction-change, ...). Changed attributes are applied with update(), the controller is destroyed on unmount.
+ */
+
+import {
+  camelize,
+  defineComponent,
+  h,
+  MaybeRefOrGetter,
+  onBeforeUnmount,
+  onMounted,
+  onUpdated,
+  ref,
+  Ref,
+  shallowRef,
+  StyleValue,
+  toValue,
+  watch,
+} from "vue";
+import {
+  BindingController,
+  BindingProps,
+  ButtonProps,
+  ControllerBinding,
+  DpadProps,
+  JoystickProps,
+  SliderProps,
+} from "../joystick/Bindings";
+import { LayoutControlType } from "../joystick/Layout";
+
+export type {
+  ButtonProps,
+  DpadProps,
+  JoystickProps,
+  SliderProps,
+} from "../joystick/Bindings";
+
+// Default style of the container, the controls are centered in it unless top / left / anchor are set
+const containerStyle: StyleValue = {
+  position: "relative",
+  width: "100%",
+  height: "100%",
+  touchAction: "none",
+};
+
+/**
+ * Use Controller
+ *
+ * Mounts a controller in the target element, the props are watched and applied with update()
+ */
+export function useController<Type extends LayoutControlType>(
+  type: Type,
+  target: Ref<HTMLElement | null | undefined>,
+  props: MaybeRefOrGetter<BindingProps<Type>>
+) {
+  const controller = shallowRef<BindingController<Type>>();
+  let binding: ControllerBinding<Type> | undefined;
+
+  // apply the current props (unchanged props are skipped)
+  const update = () => {
+    if (binding) controller.value = binding.update({ ...toValue(props) });
+  };
+
+  onMounted(() => {
+    if (!target.value) return;
+    binding = new ControllerBinding(type, target.value, {
+      ...toValue(props),
+    });
+    controller.value = binding.controller;
+  });
+  watch(() => toValue(props), update, { deep: true });
+  onBeforeUnmount(() => {
+    binding?.destroy();
+    binding = undefined;
+    controller.value = undefined;
+  });
+
+  return { controller, update };
+}
+
+/**
+ * Use Joystick
+ */
+export const useJoystick = (
+  target: Ref<HTMLElement | null | undefined>,
+  props: MaybeRefOrGetter<JoystickProps>
+) => useController("joystick", target, props);
+
+/**
+ * Use D-pad
+ */
+export const useDpad = (
+  target: Ref<HTMLElement | null | undefined>,
+  props: MaybeRefOrGetter<DpadProps>
+) => useController("dpad", target, props);
+
+/**
+ * Use Button
+ */
+export const useButton = (
+  target: Ref<HTMLElement | null | undefined>,
+  props: MaybeRefOrGetter<ButtonProps>
+) => useController("button", target, props);
+
+/**
+ * Use Slider
+ */
+export const useSlider = (
+  target: Ref<HTMLElement | null | undefined>,
+  props: MaybeRefOrGetter<SliderProps>
+) => useController("slider", target, props);
+
+/**
+ * Controller Component
+ *
+ * Creates the component of a control type, the controller is exposed as `controller`
+ */
+function controllerComponent<Type extends LayoutControlType>(
+  type: Type,
+  name: string
+) {
+  return defineComponent(
+    (_props: BindingProps<Type>, { attrs, expose }) => {
+      const container = ref<HTMLDivElement>();
+
+      // options and listeners from the attributes (kebab-case attributes are camelized)
+      const props = () => {
+        const options: { [prop: string]: unknown } = {};
+        Object.entries(attrs).forEach(([attribute, value]) => {
+          if (attribute !== "class" && attribute !== "style")
+            options[camelize(attribute)] = value;
+        });
+        return options as BindingProps<Type>;
+      };
+
+      // attributes are not reactive, they are applied after every update of the component
+      const { controller, update } = useController(type, container, props);
+      onUpdated(update);
+      expose({ controller });
+
+      return () =>
+        h("div", {
+          ref: container,
+          class: attrs.class,
+          style: [containerStyle, attrs.style as StyleValue],
+        });
+    },
+    { name, inheritAttrs: false }
+  );
+}
+
+export const Joystick = controllerComponent("joystick", "Joystick");
+export const Dpad = controllerComponent("dpad", "Dpad");
+export const Button = controllerComponent("button", "Button");
+export const Slider = controllerComponent("slider", "Slider");
@@ -0,0 +1,45 @@
+import { resolveAnchor } from "../src/joystick/Anchor";
+
+const box = { width: "60px", height: "40px", centered: false };
+
+describe("resolveAnchor", () => {
+  it("pins the box to a corner with the safe-area insets", () => {
+    expect(
+      resolveAnchor({ anchor: "top-left", offsetX: 10, offsetY: "1rem" }, box)
+    ).toEqual({
+      top: "calc(env(safe-area-inset-top, 0px) + 1rem)",
+      left: "calc(env(safe-area-inset-left, 0px) + 10px)",
+    });
+  });
+
+  it("measures offsets inwards from the far edges", () => {
+    expect(
+      resolveAnchor(
+        { anchor: "bottom-right", offsetX: 20, offsetY: 20, safeArea: false },
+        box
+      )
+    ).toEqual({
+      top: "calc(100% - 0px - 20px - 40px)",
+      left: "calc(100% - 0px - 20px - 60px)",
+    });
+  });
+
+  it("centers the box on the other axis of an edge anchor", () => {
+    expect(resolveAnchor({ anchor: "bottom", safeArea: false }, box)).toEqual({
+      top: "calc(100% - 0px - 0px - 40px)",
+      left: "calc(50% - 60px / 2 + 0px)",
+    });
+  });
+
+  it("returns the center of centered boxes", () => {
+    expect(
+      resolveAnchor(
+        { anchor: "left", safeArea: false },
+        { ...box, centered: true }
+      )
+    ).toEqual({
+      top: "calc(50% - 40px / 2 + 0px + 40px / 2)",
+      left: "calc(0px + 0px + 60px / 2)",
+    });
+  });
+});
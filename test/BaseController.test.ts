@@ -0,0 +1,69 @@
+import { BaseController } from "../src/joystick/BaseController";
+import { ButtonController } from "../src/joystick/Button";
+import { DpadController } from "../src/joystick/Dpad";
+import { JoysickController } from "../src/joystick/Joystick";
+import { RetrackableSlider } from "../src/joystick/RetractableSlider";
+
+const controllers: [string, (container: HTMLElement) => BaseController][] = [
+  ["joystick", (container) => new JoysickController({ container })],
+  ["dpad", (container) => new DpadController({ container })],
+  [
+    "button",
+    (container) =>
+      new ButtonController({ container, width: "40px", height: "40px" }),
+  ],
+  ["slider", (container) => new RetrackableSlider({ container })],
+];
+
+describe.each(controllers)("%s lifecycle", (_, create) => {
+  let container: HTMLElement;
+  let controller: BaseController;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    controller = create(container);
+  });
+
+  afterEach(() => {
+    controller.destroy();
+    container.remove();
+  });
+
+  it("is added to its container", () => {
+    expect(container.contains(controller.base)).toBe(true);
+    expect(controller.isEnabled).toBe(true);
+  });
+
+  it("disables and enables input", () => {
+    controller.disable();
+    expect(controller.isEnabled).toBe(false);
+    controller.enable();
+    expect(controller.isEnabled).toBe(true);
+  });
+
+  it("removes its element and listeners when destroyed", () => {
+    const target = new EventTarget();
+    const handler = jest.fn();
+    controller.listen(target, "ping", handler);
+    target.dispatchEvent(new Event("ping"));
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    controller.destroy();
+    target.dispatchEvent(new Event("ping"));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(container.contains(controller.base)).toBe(false);
+    expect(controller.isDestroyed).toBe(true);
+    expect(controller.isEnabled).toBe(false);
+  });
+
+  it("can not be used again once destroyed", () => {
+    controller.destroy();
+    controller.destroy();
+    controller.enable();
+    expect(controller.isEnabled).toBe(false);
+    expect(() => controller.listen(window, "resize", () => {})).toThrow(
+      "Controller has been destroyed!"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { DpadController } from "../src/joystick/Dpad";
+
+describe("DpadController sectors", () => {
+  let dpad: DpadController;
+
+  afterEach(() => dpad.destroy());
+
+  it("splits the circle into eight 45° sectors by default", () => {
+    dpad = new DpadController({ container: document.body });
+    expect(dpad.directionFromAngle(0)).toBe("right");
+    expect(dpad.directionFromAngle(20)).toBe("right");
+    expect(dpad.directionFromAngle(25)).toBe("up-right");
+    expect(dpad.directionFromAngle(90)).toBe("up");
+    expect(dpad.directionFromAngle(180)).toBe("left");
+    expect(dpad.directionFromAngle(225)).toBe("down-left");
+    expect(dpad.directionFromAngle(350)).toBe("right");
+    expect(dpad.directionFromAngle(-45)).toBe("down-right");
+  });
+
+  it("only reports cardinals in 4-way mode", () => {
+    dpad = new DpadController({ container: document.body, mode: 4 });
+    expect(dpad.directionFromAngle(40)).toBe("right");
+    expect(dpad.directionFromAngle(50)).toBe("up");
+    expect(dpad.directionFromAngle(130)).toBe("up");
+    expect(dpad.directionFromAngle(140)).toBe("left");
+  });
+
+  it("sizes the diagonal sectors with diagonalWidth", () => {
+    dpad = new DpadController({ container: document.body, diagonalWidth: 20 });
+    expect(dpad.directionFromAngle(34)).toBe("right");
+    expect(dpad.directionFromAngle(36)).toBe("up-right");
+    expect(dpad.directionFromAngle(54)).toBe("up-right");
+    expect(dpad.directionFromAngle(56)).toBe("up");
+  });
+
+  it("keeps the current direction within the hysteresis", () => {
+    dpad = new DpadController({ container: document.body, hysteresis: 10 });
+    expect(dpad.directionFromAngle(30)).toBe("up-right");
+    dpad.setDirection("right");
+    expect(dpad.directionFromAngle(30)).toBe("right");
+    expect(dpad.directionFromAngle(35)).toBe("up-right");
+  });
+
+  it("rejects diagonal widths outside 0 - 90", () => {
+    expect(
+      () => new DpadController({ container: document.body, diagonalWidth: 100 })
+    ).toThrow("D-pad diagonalWidth must be between 0 and 90 degrees!");
+    dpad = new DpadController({ container: document.body, diagonalWidth: 0 });
+    expect(dpad.directionFromAngle(44)).toBe("right");
+  });
+});
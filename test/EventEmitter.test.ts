@@ -0,0 +1,59 @@
+import { EventEmitter } from "../src/joystick/EventEmitter";
+
+type TestEvents = {
+  move: (x: number, y: number) => void;
+  end: () => void;
+};
+
+describe("EventEmitter", () => {
+  it("calls every handler of an event with its arguments", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const first = jest.fn();
+    const second = jest.fn();
+    emitter.on("move", first).on("move", second);
+    emitter.emit("move", 1, -1);
+    expect(first).toHaveBeenCalledWith(1, -1);
+    expect(second).toHaveBeenCalledWith(1, -1);
+  });
+
+  it("calls once handlers only once", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const handler = jest.fn();
+    emitter.once("end", handler);
+    emitter.emit("end");
+    emitter.emit("end");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets a once handler subscribe itself again", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const handler = jest.fn(() => {
+      emitter.once("end", handler);
+    });
+    emitter.once("end", handler);
+    emitter.emit("end");
+    emitter.emit("end");
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("removes one handler, every handler of an event or every handler", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const move = jest.fn();
+    const other = jest.fn();
+    const end = jest.fn();
+    emitter.on("move", move).on("move", other).on("end", end);
+
+    emitter.off("move", move);
+    emitter.emit("move", 0, 0);
+    expect(move).not.toHaveBeenCalled();
+    expect(other).toHaveBeenCalledTimes(1);
+
+    emitter.off("move");
+    emitter.emit("move", 0, 0);
+    expect(other).toHaveBeenCalledTimes(1);
+
+    emitter.off();
+    emitter.emit("end");
+    expect(end).not.toHaveBeenCalled();
+  });
+});
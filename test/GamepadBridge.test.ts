@@ -0,0 +1,98 @@
+import { ButtonController } from "../src/joystick/Button";
+import { GamepadBridge } from "../src/joystick/GamepadBridge";
+
+// Physical gamepad with the standard mapping
+function createGamepad(axes: number[], pressed: number[]) {
+  return {
+    id: "pad",
+    index: 0,
+    connected: true,
+    axes,
+    buttons: Array.from({ length: 17 }, (_, index) => ({
+      pressed: pressed.includes(index),
+      touched: pressed.includes(index),
+      value: pressed.includes(index) ? 1 : 0,
+    })),
+  } as unknown as Gamepad;
+}
+
+// A touch anywhere on the page
+function touch() {
+  const event = new MouseEvent("pointerdown");
+  Object.defineProperty(event, "pointerType", { value: "touch" });
+  window.dispatchEvent(event);
+}
+
+describe("GamepadBridge", () => {
+  let gamepads: (Gamepad | null)[];
+  let button: ButtonController;
+  let bridge: GamepadBridge;
+
+  beforeEach(() => {
+    gamepads = [];
+    button = new ButtonController({ width: "40px", height: "40px" });
+    bridge = new GamepadBridge({
+      buttons: { 0: button },
+      getGamepads: () => gamepads,
+    });
+  });
+
+  afterEach(() => {
+    bridge.destroy();
+    button.destroy();
+  });
+
+  it("merges the physical stick and buttons", () => {
+    const buttonpress = jest.fn();
+    bridge.on("buttonpress", buttonpress);
+    gamepads = [createGamepad([1, 0], [0, 12])];
+    const state = bridge.poll();
+    expect(state.isPhysicalConnected).toBe(true);
+    expect(state.x).toBe(1);
+    expect(state.y).toBe(0);
+    expect(state.direction).toBe("up");
+    expect(buttonpress.mock.calls).toEqual([[0], [12]]);
+  });
+
+  it("hides and disables the overlay while a gamepad is connected", () => {
+    gamepads = [createGamepad([0, 0], [])];
+    bridge.poll();
+    expect(bridge.state.isOverlayVisible).toBe(false);
+    expect(button.isEnabled).toBe(false);
+    expect(button.base.style.visibility).toBe("hidden");
+
+    gamepads = [];
+    bridge.poll();
+    expect(bridge.state.isOverlayVisible).toBe(true);
+    expect(button.isEnabled).toBe(true);
+    expect(button.base.style.visibility).toBe("");
+  });
+
+  it("keeps controllers disabled by the app disabled", () => {
+    button.disable();
+    gamepads = [createGamepad([0, 0], [])];
+    bridge.poll();
+    gamepads = [];
+    bridge.poll();
+    expect(button.isEnabled).toBe(false);
+  });
+
+  it("reveals the overlay on touch only while started", () => {
+    gamepads = [createGamepad([0, 0], [])];
+    bridge.poll();
+    touch();
+    expect(bridge.state.isOverlayVisible).toBe(false);
+
+    bridge.start();
+    touch();
+    expect(bridge.state.isOverlayVisible).toBe(true);
+    expect(button.isEnabled).toBe(true);
+
+    // using the gamepad hides the overlay again
+    gamepads = [createGamepad([0, 0], [0])];
+    bridge.poll();
+    bridge.stop();
+    touch();
+    expect(bridge.state.isOverlayVisible).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { Gestures } from "../src/joystick/Gestures";
+
+describe("Gestures", () => {
+  let onTap: jest.Mock;
+  let onDoubleTap: jest.Mock;
+  let onSwipe: jest.Mock;
+  let gestures: Gestures;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onTap = jest.fn();
+    onDoubleTap = jest.fn();
+    onSwipe = jest.fn();
+    gestures = new Gestures({ onTap, onDoubleTap, onSwipe });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it("reports a single tap once the double tap window has passed", () => {
+    gestures.start(0, 0);
+    gestures.end(80, false);
+    jest.advanceTimersByTime(299);
+    expect(onTap).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(onTap).toHaveBeenCalledWith(80);
+  });
+
+  it("reports a second tap within the window as a double tap", () => {
+    gestures.start(0, 0);
+    gestures.end(80, false);
+    jest.advanceTimersByTime(200);
+    gestures.start(0, 0);
+    gestures.end(60, false);
+    jest.runAllTimers();
+    expect(onDoubleTap).toHaveBeenCalledTimes(1);
+    expect(onTap).not.toHaveBeenCalled();
+  });
+
+  it("reports taps right away without a double tap window", () => {
+    gestures.doubleTapWindow = 0;
+    gestures.start();
+    gestures.end(50, false);
+    expect(onTap).toHaveBeenCalledWith(50);
+  });
+
+  it("recognizes swipes in the direction travelled most", () => {
+    gestures.start(100, 100);
+    gestures.move(110, 90);
+    expect(onSwipe).not.toHaveBeenCalled();
+    gestures.move(110, 65);
+    expect(onSwipe).toHaveBeenCalledWith("up");
+    gestures.move(200, 65);
+    expect(onSwipe).toHaveBeenCalledTimes(1);
+    gestures.end(100, false);
+    jest.runAllTimers();
+    expect(onTap).not.toHaveBeenCalled();
+
+    gestures.start(100, 100);
+    gestures.move(60, 110);
+    expect(onSwipe).toHaveBeenLastCalledWith("left");
+  });
+
+  it("does not swipe without a pointer or with swipeDistance: 0", () => {
+    gestures.start();
+    gestures.move(500, 500);
+    gestures.swipeDistance = 0;
+    gestures.start(0, 0);
+    gestures.move(500, 500);
+    expect(onSwipe).not.toHaveBeenCalled();
+  });
+
+  it("swipes when the pointer leaves far enough and is no tap", () => {
+    gestures.start(100, 100);
+    expect(gestures.canSwipe).toBe(true);
+    gestures.leave(140, 100);
+    expect(onSwipe).toHaveBeenCalledWith("right");
+    expect(gestures.canSwipe).toBe(false);
+
+    gestures.start(100, 100);
+    gestures.leave();
+    gestures.end(50, false);
+    jest.runAllTimers();
+    expect(onTap).not.toHaveBeenCalled();
+  });
+
+  it("is no tap after a long press and drops a pending tap when cancelled", () => {
+    gestures.start(0, 0);
+    gestures.end(600, true);
+    gestures.start(0, 0);
+    gestures.end(50, false);
+    gestures.cancel();
+    jest.runAllTimers();
+    expect(onTap).not.toHaveBeenCalled();
+    expect(onDoubleTap).not.toHaveBeenCalled();
+  });
+});
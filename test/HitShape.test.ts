@@ -0,0 +1,129 @@
+import {
+  HitShape,
+  hitTestShape,
+  HitViewBox,
+  resolveHitShape,
+} from "../src/joystick/HitShape";
+
+// Element drawn at (100, 100) - (200, 200), or rotated around its center with the grown bounding rect
+function createElement(rotate = 0) {
+  const element = document.createElement("div");
+  const grow = rotate ? 50 * (Math.SQRT2 - 1) : 0;
+  element.getBoundingClientRect = () =>
+    ({
+      left: 100 - grow,
+      top: 100 - grow,
+      width: 100 + 2 * grow,
+      height: 100 + 2 * grow,
+    } as DOMRect);
+  Object.defineProperty(element, "offsetWidth", { value: 100 });
+  Object.defineProperty(element, "offsetHeight", { value: 100 });
+  return element;
+}
+
+const hits = (shape: HitShape, x: number, y: number, rotate = 0) =>
+  hitTestShape(shape, createElement(rotate), rotate, x, y);
+
+describe("resolveHitShape", () => {
+  it("expands shape types and uses the fallback", () => {
+    expect(resolveHitShape("circle", "rect")).toEqual({ type: "circle" });
+    expect(resolveHitShape(undefined, "rounded-rect")).toEqual({
+      type: "rounded-rect",
+    });
+  });
+
+  it("takes the path of the control for a path without data", () => {
+    const controlPath: { d: string; viewBox: HitViewBox } = {
+      d: "M0 0 L10 0 L10 10 Z",
+      viewBox: [0, 0, 10, 10],
+    };
+    expect(resolveHitShape("path", "rect", controlPath)).toEqual({
+      type: "path",
+      ...controlPath,
+    });
+    expect(() => resolveHitShape("path", "rect")).toThrow(
+      "Hit shape path needs path data (d)!"
+    );
+  });
+
+  it("rejects invalid shapes", () => {
+    expect(() => resolveHitShape("star" as never, "rect")).toThrow(
+      'Unknown hit shape "star"'
+    );
+    expect(() =>
+      resolveHitShape({ type: "rect", padding: -1 }, "rect")
+    ).toThrow("Hit shape padding must be a positive number of px!");
+    expect(() =>
+      resolveHitShape(
+        {
+          type: "polygon",
+          points: [
+            [0, 0],
+            [1, 1],
+          ],
+        },
+        "rect"
+      )
+    ).toThrow("Hit shape polygon needs at least 3 points!");
+    expect(() =>
+      resolveHitShape(
+        {
+          type: "polygon",
+          points: [
+            [0, 0],
+            [1, 0],
+            [0, 1],
+          ],
+          viewBox: [0, 0, 0, 1],
+        },
+        "rect"
+      )
+    ).toThrow("Hit shape viewBox must be");
+  });
+});
+
+describe("hitTestShape", () => {
+  it("hit-tests the box with padding", () => {
+    expect(hits({ type: "rect" }, 100, 100)).toBe(true);
+    expect(hits({ type: "rect" }, 95, 150)).toBe(false);
+    expect(hits({ type: "rect", padding: 10 }, 95, 150)).toBe(true);
+  });
+
+  it("hit-tests the inscribed circle", () => {
+    expect(hits({ type: "circle" }, 150, 150)).toBe(true);
+    expect(hits({ type: "circle" }, 105, 105)).toBe(false);
+    expect(hits({ type: "circle" }, 199, 150)).toBe(true);
+    expect(hits({ type: "circle", padding: 10 }, 205, 150)).toBe(true);
+  });
+
+  it("hit-tests rounded corners", () => {
+    const shape: HitShape = { type: "rounded-rect", radius: 20 };
+    expect(hits(shape, 102, 102)).toBe(false);
+    expect(hits(shape, 110, 110)).toBe(true);
+    expect(hits(shape, 102, 150)).toBe(true);
+  });
+
+  it("hit-tests polygons in their view box", () => {
+    // triangle in the top left half of the box
+    const shape: HitShape = {
+      type: "polygon",
+      points: [
+        [0, 0],
+        [10, 0],
+        [0, 10],
+      ],
+      viewBox: [0, 0, 10, 10],
+    };
+    expect(hits(shape, 120, 120)).toBe(true);
+    expect(hits(shape, 180, 180)).toBe(false);
+    expect(hits({ ...shape, padding: 5 }, 153, 153)).toBe(true);
+  });
+
+  it("hit-tests the unrotated shape of a rotated element", () => {
+    const shape: HitShape = { type: "rect" };
+    // the corner of the grown bounding rect is outside the rotated box
+    expect(hits(shape, 81, 81, 45)).toBe(false);
+    // the rotated corner of the box pokes out above its center
+    expect(hits(shape, 150, 82, 45)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { Hold, validateChargeLevels } from "../src/joystick/Hold";
+
+describe("Hold", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("tracks plain holds without checking every frame", () => {
+    const requestAnimationFrame = jest.spyOn(window, "requestAnimationFrame");
+    const onValue = jest.fn();
+    const hold = new Hold({ onValue });
+    hold.start();
+    jest.advanceTimersByTime(200);
+    expect(hold.duration).toBe(200);
+    expect(requestAnimationFrame).not.toHaveBeenCalled();
+    expect(hold.stop()).toEqual({ duration: 200, level: 0 });
+    expect(onValue).not.toHaveBeenCalled();
+    requestAnimationFrame.mockRestore();
+  });
+
+  it("ramps the analog value and resets it when stopped", () => {
+    const values: number[] = [];
+    const hold = new Hold(
+      { onValue: (value) => values.push(value) },
+      { analog: true, rampDuration: 100 }
+    );
+    hold.start();
+    jest.advanceTimersByTime(50);
+    expect(hold.value).toBeGreaterThanOrEqual(0.4);
+    expect(hold.value).toBeLessThanOrEqual(0.6);
+    jest.advanceTimersByTime(100);
+    expect(hold.value).toBe(1);
+    hold.stop();
+    expect(hold.value).toBe(0);
+    expect(values[values.length - 1]).toBe(0);
+  });
+
+  it("follows the pointer pressure", () => {
+    const hold = new Hold({}, { analog: true });
+    hold.start(0.8);
+    expect(hold.value).toBe(0.8);
+    hold.setPressure(0.3);
+    jest.advanceTimersByTime(20);
+    expect(hold.value).toBe(0.3);
+    hold.stop();
+
+    // 0.5 is reported by hardware without pressure
+    hold.start(0.5);
+    expect(hold.value).toBe(0);
+    hold.stop();
+  });
+
+  it("only long presses with a long press duration", () => {
+    const onLongPress = jest.fn();
+    const hold = new Hold({ onLongPress });
+    hold.start();
+    jest.advanceTimersByTime(1000);
+    hold.stop();
+    expect(onLongPress).not.toHaveBeenCalled();
+
+    hold.longPressDuration = 300;
+    hold.start();
+    jest.advanceTimersByTime(1000);
+    expect(hold.longPressed).toBe(true);
+    hold.stop();
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+    expect(onLongPress.mock.calls[0][0]).toBeGreaterThanOrEqual(300);
+  });
+
+  it("reaches the charge levels in order", () => {
+    const onCharge = jest.fn();
+    const hold = new Hold({ onCharge }, { chargeLevels: [100, 250] });
+    hold.start();
+    jest.advanceTimersByTime(150);
+    expect(hold.level).toBe(1);
+    jest.advanceTimersByTime(150);
+    expect(onCharge.mock.calls.map(([level]) => level)).toEqual([1, 2]);
+    expect(hold.stop().level).toBe(2);
+    expect(hold.level).toBe(0);
+  });
+});
+
+describe("validateChargeLevels", () => {
+  it("requires positive ascending hold times", () => {
+    expect(() => validateChargeLevels([100, 400])).not.toThrow();
+    expect(() => validateChargeLevels([400, 100])).toThrow();
+    expect(() => validateChargeLevels([0])).toThrow();
+  });
+});
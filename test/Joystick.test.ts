@@ -0,0 +1,91 @@
+import { JoysickController } from "../src/joystick/Joystick";
+
+// Joystick with its base at (0, 0) - (100, 100), a thumb of 40px moves up to 40px from the center
+function createJoystick(options: { snap?: number; axis?: "x" | "y" }) {
+  const joystick = new JoysickController({ radius: 100, ...options });
+  joystick.base.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 100, height: 100 } as DOMRect);
+  joystick.base.setPointerCapture = () => undefined;
+  Object.defineProperty(joystick.baseThumb, "offsetWidth", { value: 40 });
+  return joystick;
+}
+
+// Press the joystick at a point and return its state
+function pressAt(
+  joystick: JoysickController,
+  clientX: number,
+  clientY: number
+) {
+  joystick.onJoysickDown(
+    new MouseEvent("pointerdown", { clientX, clientY }) as PointerEvent
+  );
+  const state = { ...joystick.getState() };
+  joystick.release();
+  return state;
+}
+
+// Points around the center of the base
+const points: [number, number][] = [
+  [80, 30],
+  [70, 20],
+  [50, 10],
+  [20, 20],
+  [10, 60],
+  [60, 95],
+  [85, 70],
+];
+
+describe("JoysickController snapping", () => {
+  it("only reports the four cardinal directions with snap: 4", () => {
+    const joystick = createJoystick({ snap: 4 });
+    points.forEach(([x, y]) => {
+      const state = pressAt(joystick, x, y);
+      expect(["up", "down", "left", "right"]).toContain(state.direction);
+      expect(state.x === 0 || state.y === 0).toBe(true);
+    });
+    joystick.destroy();
+  });
+
+  it("names the direction of the snapped vector", () => {
+    const joystick = createJoystick({ snap: 4 });
+    // 34° above the right axis snaps to right
+    expect(pressAt(joystick, 80, 30)).toMatchObject({
+      direction: "right",
+      y: 0,
+    });
+    // 56° above the right axis snaps to up
+    expect(pressAt(joystick, 70, 20)).toMatchObject({
+      direction: "up",
+      x: 0,
+    });
+    joystick.destroy();
+  });
+
+  it("reports diagonals with snap: 8", () => {
+    const joystick = createJoystick({ snap: 8 });
+    const state = pressAt(joystick, 80, 30);
+    expect(state.direction).toBe("up-right");
+    expect(state.x).toBeCloseTo(-state.y);
+    joystick.destroy();
+  });
+
+  it("locks the input to one axis", () => {
+    const joystick = createJoystick({ axis: "x" });
+    const state = pressAt(joystick, 80, 30);
+    expect(state.y).toBe(0);
+    expect(state.direction).toBe("right");
+    joystick.destroy();
+  });
+
+  it("emits directionchange when the direction changes", () => {
+    const joystick = createJoystick({ snap: 4 });
+    const directionchange = jest.fn();
+    joystick.on("directionchange", directionchange);
+    pressAt(joystick, 50, 10);
+    expect(directionchange.mock.calls).toEqual([
+      ["up", "center"],
+      ["center", "up"],
+    ]);
+    joystick.destroy();
+  });
+});
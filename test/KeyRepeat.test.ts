@@ -0,0 +1,55 @@
+import { KeyRepeat } from "../src/joystick/KeyRepeat";
+
+describe("KeyRepeat", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("repeats after the delay and then at the interval", () => {
+    const callback = jest.fn();
+    const repeat = new KeyRepeat(callback, { delay: 300, interval: 50 });
+    repeat.start();
+    expect(repeat.isRunning).toBe(true);
+
+    jest.advanceTimersByTime(299);
+    expect(callback).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledTimes(3);
+  });
+
+  it("uses a 400ms delay and 100ms interval by default", () => {
+    const callback = jest.fn();
+    const repeat = new KeyRepeat(callback);
+    repeat.start();
+    jest.advanceTimersByTime(400);
+    expect(callback).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(300);
+    expect(callback).toHaveBeenCalledTimes(4);
+    repeat.stop();
+  });
+
+  it("stops repeating", () => {
+    const callback = jest.fn();
+    const repeat = new KeyRepeat(callback, { delay: 100, interval: 100 });
+    repeat.start();
+    jest.advanceTimersByTime(150);
+    repeat.stop();
+    expect(repeat.isRunning).toBe(false);
+    jest.advanceTimersByTime(1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for the delay again when restarted", () => {
+    const callback = jest.fn();
+    const repeat = new KeyRepeat(callback, { delay: 100, interval: 10 });
+    repeat.start();
+    jest.advanceTimersByTime(90);
+    repeat.start();
+    jest.advanceTimersByTime(90);
+    expect(callback).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(10);
+    expect(callback).toHaveBeenCalledTimes(1);
+    repeat.stop();
+  });
+});
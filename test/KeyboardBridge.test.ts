@@ -0,0 +1,99 @@
+import { DpadController } from "../src/joystick/Dpad";
+import {
+  KeyboardBridge,
+  resolveKeyBinding,
+} from "../src/joystick/KeyboardBridge";
+
+describe("resolveKeyBinding", () => {
+  it("fills in the key and keyCode of a code", () => {
+    expect(resolveKeyBinding("KeyZ")).toEqual({
+      code: "KeyZ",
+      key: "z",
+      keyCode: 90,
+    });
+    expect(resolveKeyBinding("Digit1")).toEqual({
+      code: "Digit1",
+      key: "1",
+      keyCode: 49,
+    });
+    expect(resolveKeyBinding("ArrowUp")).toEqual({
+      code: "ArrowUp",
+      key: "ArrowUp",
+      keyCode: 38,
+    });
+    expect(resolveKeyBinding("Space")).toEqual({
+      code: "Space",
+      key: " ",
+      keyCode: 32,
+    });
+    expect(resolveKeyBinding("ShiftLeft")).toEqual({
+      code: "ShiftLeft",
+      key: "Shift",
+      keyCode: 16,
+    });
+  });
+
+  it("keeps the key and keyCode of a full binding", () => {
+    expect(resolveKeyBinding({ code: "KeyA", key: "A", keyCode: 1 })).toEqual({
+      code: "KeyA",
+      key: "A",
+      keyCode: 1,
+    });
+  });
+});
+
+describe("KeyboardBridge", () => {
+  let dpad: DpadController;
+  let target: EventTarget;
+  let events: string[];
+
+  beforeEach(() => {
+    dpad = new DpadController({ container: document.body });
+    target = new EventTarget();
+    events = [];
+    const record = (e: Event) => {
+      const { type, code, repeat, keyCode } = e as KeyboardEvent;
+      events.push(`${type} ${code} ${keyCode}${repeat ? " repeat" : ""}`);
+    };
+    target.addEventListener("keydown", record);
+    target.addEventListener("keyup", record);
+  });
+
+  afterEach(() => dpad.destroy());
+
+  it("maps the D-pad arms to keys", () => {
+    const bridge = new KeyboardBridge(dpad, {
+      keyMap: { up: "ArrowUp", right: "ArrowRight", left: "ArrowLeft" },
+      target,
+    });
+    dpad.setDirection("up-right");
+    dpad.setDirection("up");
+    dpad.setDirection("center");
+    expect(events).toEqual([
+      "keydown ArrowUp 38",
+      "keydown ArrowRight 39",
+      "keyup ArrowRight 39",
+      "keyup ArrowUp 38",
+    ]);
+    bridge.destroy();
+  });
+
+  it("skips inputs without a key and repeats held keys", () => {
+    const bridge = new KeyboardBridge(dpad, { keyMap: { up: "KeyW" }, target });
+    dpad.setDirection("down");
+    expect(events).toEqual([]);
+    dpad.setDirection("up");
+    dpad.emit("press", "up", true);
+    expect(events).toEqual(["keydown KeyW 87", "keydown KeyW 87 repeat"]);
+    bridge.destroy();
+  });
+
+  it("releases held keys and stops listening when destroyed", () => {
+    const bridge = new KeyboardBridge(dpad, { keyMap: { up: "KeyW" }, target });
+    dpad.setDirection("up");
+    bridge.destroy();
+    dpad.setDirection("center");
+    dpad.setDirection("up");
+    expect(events).toEqual(["keydown KeyW 87", "keyup KeyW 87"]);
+  });
+});
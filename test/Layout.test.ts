@@ -0,0 +1,208 @@
+import { ButtonController } from "../src/joystick/Button";
+import {
+  createLayout,
+  LayoutConfig,
+  LayoutValidationError,
+  matchVariant,
+  validateLayout,
+} from "../src/joystick/Layout";
+
+const config: LayoutConfig = {
+  id: "platformer",
+  controls: [
+    {
+      type: "joystick",
+      id: "move",
+      position: { top: "70%", left: "20%" },
+      size: { radius: 80 },
+      options: { deadZone: 0.1 },
+      bindings: { gamepad: "left" },
+    },
+    {
+      type: "button",
+      id: "jump",
+      position: { top: "70%", left: "80%" },
+      size: { width: "64px", height: "64px" },
+      bindings: { keys: { press: "Space" }, gamepad: 0 },
+    },
+  ],
+};
+
+describe("validateLayout", () => {
+  it("accepts a valid config", () => {
+    expect(validateLayout(config)).toEqual([]);
+  });
+
+  it("rejects configs without controls", () => {
+    expect(validateLayout(null)).toEqual(["layout config must be an object"]);
+    expect(validateLayout({ id: 1 })).toEqual([
+      "id must be a string",
+      "controls must be an array",
+    ]);
+  });
+
+  it("describes every problem of the controls", () => {
+    expect(
+      validateLayout({
+        controls: [
+          "button",
+          { type: "knob", id: "a" },
+          { type: "button", id: "a", size: { width: 64 } },
+          { type: "dpad", id: "", position: { rotate: "90deg" } },
+        ],
+      })
+    ).toEqual([
+      "controls[0] must be an object",
+      'controls[1] ("a"): unknown type "knob", expected one of joystick, dpad, button, slider',
+      'controls[2] ("a"): duplicate id "a"',
+      'controls[2] ("a"): size.width must be a CSS length string',
+      'controls[3] (""): id must be a non-empty string',
+      'controls[3] (""): position.rotate must be a number of degrees',
+    ]);
+  });
+
+  it("checks the bindings against the control type", () => {
+    expect(
+      validateLayout({
+        controls: [
+          { type: "joystick", id: "stick", bindings: { gamepad: 0 } },
+          {
+            type: "button",
+            id: "fire",
+            bindings: { keys: { up: "KeyW" }, gamepad: 17 },
+          },
+        ],
+      })
+    ).toEqual([
+      'controls[0] ("stick"): bindings.gamepad must be "left" or "right"',
+      'controls[1] ("fire"): bindings.keys.up is not an input of a button, expected one of press',
+      'controls[1] ("fire"): bindings.gamepad must be a standard button index (0 - 16)',
+    ]);
+  });
+});
+
+describe("createLayout", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => container.remove());
+
+  it("creates the controls and their bindings", () => {
+    const layout = createLayout(JSON.stringify(config), container);
+    expect(layout.id).toBe("platformer");
+    expect(layout.get("jump")).toBeInstanceOf(ButtonController);
+    expect(layout.keyboardBridges).toHaveLength(1);
+    expect(layout.gamepad?.joystick).toBe(layout.get("move"));
+    expect(container.children).toHaveLength(2);
+
+    layout.destroy();
+    expect(container.children).toHaveLength(0);
+  });
+
+  it("throws a LayoutValidationError for invalid configs", () => {
+    expect(() => createLayout("{", container)).toThrow(LayoutValidationError);
+    expect(() => createLayout({ controls: {} } as never, container)).toThrow(
+      "Invalid layout config:\n  - controls must be an array"
+    );
+  });
+
+  it("removes the controls it created when a control fails", () => {
+    expect(() =>
+      createLayout(
+        {
+          controls: [
+            config.controls[1],
+            { type: "joystick", id: "move", options: { deadZone: 2 } },
+          ],
+        },
+        container
+      )
+    ).toThrow(LayoutValidationError);
+    expect(container.children).toHaveLength(0);
+  });
+
+  it("does not share the arrays and objects of the config", () => {
+    const layout = createLayout(config, container);
+    expect(layout.config).toEqual(config);
+    expect(layout.config.controls).not.toBe(config.controls);
+    expect(layout.config.controls[0].position).not.toBe(
+      config.controls[0].position
+    );
+    layout.destroy();
+  });
+});
+
+describe("matchVariant", () => {
+  it("matches the orientation", () => {
+    expect(matchVariant({ orientation: "portrait" }, 400, 800)).toBe(true);
+    expect(matchVariant({ orientation: "portrait" }, 800, 400)).toBe(false);
+    expect(matchVariant({ orientation: "landscape" }, 800, 800)).toBe(true);
+  });
+
+  it("matches width and aspect ratio breakpoints", () => {
+    expect(matchVariant({ minWidth: 600, maxWidth: 1000 }, 800, 400)).toBe(
+      true
+    );
+    expect(matchVariant({ minWidth: 600 }, 599, 400)).toBe(false);
+    expect(matchVariant({ maxWidth: 600 }, 601, 400)).toBe(false);
+    expect(matchVariant({ minAspectRatio: 2 }, 800, 400)).toBe(true);
+    expect(matchVariant({ maxAspectRatio: 1.5 }, 800, 400)).toBe(false);
+  });
+
+  it("requires every condition", () => {
+    expect(
+      matchVariant({ orientation: "landscape", minWidth: 1000 }, 800, 400)
+    ).toBe(false);
+    expect(matchVariant({}, 800, 400)).toBe(true);
+  });
+});
+
+describe("layout variants", () => {
+  const resize = (width: number, height: number) => {
+    Object.defineProperty(window, "innerWidth", {
+      configurable: true,
+      value: width,
+    });
+    Object.defineProperty(window, "innerHeight", {
+      configurable: true,
+      value: height,
+    });
+    window.dispatchEvent(new Event("resize"));
+  };
+
+  afterEach(() => resize(1024, 768));
+
+  it("moves the controls to the matching variant", () => {
+    resize(800, 400);
+    const layout = createLayout({
+      ...config,
+      variants: [
+        {
+          id: "portrait",
+          when: { orientation: "portrait" },
+          controls: { jump: { position: { top: "90%", left: "50%" } } },
+        },
+      ],
+    });
+    const variantchange = jest.fn();
+    layout.on("variantchange", variantchange);
+    const jump = layout.get<ButtonController>("jump")!;
+    expect(jump.base.style.top).toBe("70%");
+
+    resize(400, 800);
+    expect(jump.base.style.top).toBe("90%");
+    expect(jump.base.style.left).toBe("50%");
+    expect(variantchange).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "portrait" }),
+      undefined
+    );
+
+    resize(800, 400);
+    expect(jump.base.style.top).toBe("70%");
+    layout.destroy();
+  });
+});
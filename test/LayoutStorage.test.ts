@@ -0,0 +1,108 @@
+import { LayoutConfig, LayoutValidationError } from "../src/joystick/Layout";
+import {
+  LAYOUT_SCHEMA_VERSION,
+  LayoutStorage,
+  LayoutStorageError,
+  MemoryStorageAdapter,
+  SavedLayout,
+} from "../src/joystick/LayoutStorage";
+
+const layout: LayoutConfig = {
+  id: "hud",
+  controls: [{ type: "button", id: "fire" }],
+};
+
+describe("LayoutStorage", () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+  });
+
+  // Stores a raw saved layout under an id
+  const store = (storage: LayoutStorage, id: string, saved: unknown) =>
+    adapter.setItem(storage.prefix + id, JSON.stringify(saved));
+
+  it("saves, lists, loads and removes layouts", async () => {
+    const storage = new LayoutStorage({ adapter });
+    await storage.save(layout);
+    expect(await storage.list()).toEqual(["hud"]);
+    expect(await storage.load("hud")).toEqual(layout);
+    const saved = JSON.parse((await adapter.getItem("ts-stick:layout:hud"))!);
+    expect(saved.version).toBe(LAYOUT_SCHEMA_VERSION);
+
+    await storage.remove("hud");
+    expect(await storage.load("hud")).toBeUndefined();
+  });
+
+  it("migrates layouts saved before versioning and stores the result", async () => {
+    const storage = new LayoutStorage({ adapter });
+    await store(storage, "hud", layout);
+    expect(await storage.load("hud")).toEqual(layout);
+    const saved = JSON.parse((await adapter.getItem(storage.prefix + "hud"))!);
+    expect(saved).toMatchObject({ version: 1, layout });
+  });
+
+  it("runs custom migrations one version at a time", async () => {
+    const migrate = jest.fn((saved: unknown) => {
+      const { layout } = saved as SavedLayout;
+      return {
+        ...(saved as SavedLayout),
+        version: 2,
+        layout: { ...layout, id: "renamed" },
+      };
+    });
+    const storage = new LayoutStorage({
+      adapter,
+      version: 2,
+      migrations: { 1: migrate },
+    });
+    await store(storage, "hud", layout);
+    expect(await storage.load("hud")).toEqual({ ...layout, id: "renamed" });
+    expect(migrate).toHaveBeenCalledTimes(1);
+    await storage.load("hud");
+    expect(migrate).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects layouts it can not migrate", async () => {
+    const storage = new LayoutStorage({ adapter, version: 3 });
+    await store(storage, "newer", { version: 4, savedAt: 0, layout });
+    await store(storage, "missing", { version: 1, savedAt: 0, layout });
+    await adapter.setItem(storage.prefix + "broken", "{");
+    await expect(storage.load("newer")).rejects.toThrow(
+      'Saved layout "newer" has version 4, newer than the supported version 3'
+    );
+    await expect(storage.load("missing")).rejects.toThrow(
+      'Saved layout "missing" can not be migrated from version 1'
+    );
+    await expect(storage.load("broken")).rejects.toThrow(LayoutStorageError);
+  });
+
+  it("rejects migrations that do not end on the current version with a layout", async () => {
+    const migrations = {
+      1: (saved: unknown) => ({ ...(saved as SavedLayout), version: 1 }),
+      2: (saved: unknown) => ({ ...(saved as SavedLayout), version: 4 }),
+      3: () => ({ version: 4, savedAt: 0 }),
+    };
+    const storage = new LayoutStorage({ adapter, version: 4, migrations });
+    await store(storage, "stuck", { version: 1, savedAt: 0, layout });
+    await store(storage, "skipped", { version: 2, savedAt: 0, layout });
+    await store(storage, "lost", { version: 3, savedAt: 0, layout });
+    await expect(storage.load("stuck")).rejects.toThrow(
+      'Migration of saved layout "stuck" from version 1 did not increase the version'
+    );
+    const skipping = new LayoutStorage({ adapter, version: 3, migrations });
+    await expect(skipping.load("skipped")).rejects.toThrow(
+      'Saved layout "skipped" was migrated to version 4 instead of version 3'
+    );
+    await expect(storage.load("lost")).rejects.toThrow(
+      'Saved layout "lost" has no layout'
+    );
+  });
+
+  it("validates migrated layouts", async () => {
+    const storage = new LayoutStorage({ adapter });
+    await store(storage, "hud", { controls: "fire" });
+    await expect(storage.load("hud")).rejects.toThrow(LayoutValidationError);
+  });
+});
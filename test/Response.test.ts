@@ -0,0 +1,71 @@
+import {
+  applyResponse,
+  applyResponseCurve,
+  validateResponseOptions,
+} from "../src/joystick/Response";
+
+describe("applyResponseCurve", () => {
+  it("maps the built-in curves", () => {
+    expect(applyResponseCurve(0.5)).toBe(0.5);
+    expect(applyResponseCurve(0.5, "quadratic")).toBe(0.25);
+    expect(applyResponseCurve(0.5, "cubic")).toBe(0.125);
+    expect(applyResponseCurve(0, "exponential")).toBe(0);
+    expect(applyResponseCurve(1, "exponential")).toBeCloseTo(1);
+    expect(applyResponseCurve(0.5, "exponential")).toBeLessThan(0.5);
+    expect(applyResponseCurve(0.5, "exponential", 0)).toBe(0.5);
+  });
+
+  it("clamps custom curves to [0, 1]", () => {
+    expect(applyResponseCurve(0.5, (t) => t * 4)).toBe(1);
+    expect(applyResponseCurve(0.5, (t) => -t)).toBe(0);
+    expect(applyResponseCurve(0.5, Math.sqrt)).toBeCloseTo(Math.SQRT1_2);
+  });
+});
+
+describe("applyResponse", () => {
+  const out = { x: 0, y: 0 };
+
+  it("reads input inside the inner dead zone as 0", () => {
+    applyResponse(0.1, 0.1, { deadZone: 0.2 }, out);
+    expect(out).toEqual({ x: 0, y: 0 });
+  });
+
+  it("rescales between the dead zones and keeps the direction", () => {
+    applyResponse(0.6, 0, { deadZone: 0.2 }, out);
+    expect(out.x).toBeCloseTo(0.5);
+    expect(out.y).toBe(0);
+
+    applyResponse(0, -0.9, { deadZone: 0.1, outerDeadZone: 0.1 }, out);
+    expect(out.x).toBe(0);
+    expect(out.y).toBe(-1);
+
+    applyResponse(0.3, 0.4, { deadZone: 0.1 }, out);
+    expect(out.x / out.y).toBeCloseTo(0.75);
+  });
+
+  it("applies axial dead zones to each axis", () => {
+    applyResponse(0.1, 0.8, { deadZone: 0.2, deadZoneMode: "axial" }, out);
+    expect(out.x).toBe(0);
+    expect(out.y).toBeCloseTo(0.75);
+
+    applyResponse(0.1, 0.8, { deadZone: 0.2 }, out);
+    expect(out.x).not.toBe(0);
+  });
+
+  it("applies the response curve after the dead zones", () => {
+    applyResponse(-0.6, 0, { deadZone: 0.2, responseCurve: "quadratic" }, out);
+    expect(out.x).toBeCloseTo(-0.25);
+  });
+});
+
+describe("validateResponseOptions", () => {
+  it("throws for dead zones out of range", () => {
+    expect(() => validateResponseOptions({ deadZone: -0.1 })).toThrow();
+    expect(() =>
+      validateResponseOptions({ deadZone: 0.5, outerDeadZone: 0.5 })
+    ).toThrow();
+    expect(() =>
+      validateResponseOptions({ deadZone: 0.2, outerDeadZone: 0.1 })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,61 @@
+import { createLayout } from "../src/joystick/Layout";
+import {
+  applyTheme,
+  isThemeName,
+  isThemeProperty,
+  resolveTheme,
+  themes,
+  themeVar,
+} from "../src/joystick/Theme";
+
+describe("resolveTheme", () => {
+  it("applies overrides to a built-in theme", () => {
+    expect(resolveTheme("retro", { color: "red", opacity: undefined })).toEqual(
+      { ...themes.retro, color: "red" }
+    );
+    expect(resolveTheme({ color: "blue" })).toEqual({ color: "blue" });
+  });
+
+  it("only accepts the built-in theme names", () => {
+    expect(() => resolveTheme("neon" as never)).toThrow('Unknown theme "neon"');
+    expect(() => resolveTheme("toString" as never)).toThrow(
+      'Unknown theme "toString"'
+    );
+    expect(isThemeName("flat")).toBe(true);
+    expect(isThemeName("constructor")).toBe(false);
+    expect(isThemeProperty("accentColor")).toBe(true);
+    expect(isThemeProperty("toString")).toBe(false);
+  });
+});
+
+describe("applyTheme", () => {
+  it("sets the custom properties of the theme and removes the others", () => {
+    const element = document.createElement("div");
+    element.style.setProperty("--ts-shadow", "none");
+    applyTheme(element, { color: "red", borderWidth: "2px" });
+    expect(element.style.getPropertyValue("--ts-color")).toBe("red");
+    expect(element.style.getPropertyValue("--ts-border-width")).toBe("2px");
+    expect(element.style.getPropertyValue("--ts-shadow")).toBe("");
+    expect(themeVar("color", "#CCC")).toBe("var(--ts-color, #CCC)");
+  });
+});
+
+describe("layout theme", () => {
+  it("themes the container and restores it when the layout is destroyed", () => {
+    const container = document.createElement("div");
+    container.style.setProperty("--ts-color", "red");
+    const layout = createLayout(
+      { theme: "flat", controls: [{ type: "button", id: "fire" }] },
+      container
+    );
+    expect(container.style.getPropertyValue("--ts-color")).toBe(
+      themes.flat.color
+    );
+    layout.setTheme("retro");
+    expect(container.style.getPropertyValue("--ts-border-radius")).toBe("0px");
+
+    layout.destroy();
+    expect(container.style.getPropertyValue("--ts-color")).toBe("red");
+    expect(container.style.getPropertyValue("--ts-border-radius")).toBe("");
+  });
+});
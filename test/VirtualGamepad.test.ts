@@ -0,0 +1,47 @@
+import {
+  installGamepadShim,
+  VirtualGamepad,
+} from "../src/joystick/VirtualGamepad";
+
+describe("installGamepadShim", () => {
+  const native = navigator.getGamepads;
+
+  it("adds virtual gamepads at the first free indexes", () => {
+    const first = new VirtualGamepad();
+    const second = new VirtualGamepad();
+    const removeFirst = installGamepadShim(first);
+    const removeSecond = installGamepadShim(second);
+    expect(navigator.getGamepads()).toEqual([first, second]);
+
+    removeFirst();
+    expect(first.connected).toBe(false);
+    expect(navigator.getGamepads()).toEqual([null, second]);
+
+    removeSecond();
+    expect(navigator.getGamepads).toBe(native);
+  });
+
+  it("restores the native getGamepads only when the last shim is removed", () => {
+    const removeFirst = installGamepadShim(new VirtualGamepad());
+    const removeSecond = installGamepadShim(new VirtualGamepad());
+    removeSecond();
+    expect(navigator.getGamepads).not.toBe(native);
+    removeSecond();
+    expect(navigator.getGamepads).not.toBe(native);
+    removeFirst();
+    expect(navigator.getGamepads).toBe(native);
+  });
+
+  it("dispatches gamepadconnected and gamepaddisconnected", () => {
+    const events: string[] = [];
+    const record = (e: Event) =>
+      events.push(`${e.type} ${(e as GamepadEvent).gamepad.index}`);
+    window.addEventListener("gamepadconnected", record);
+    window.addEventListener("gamepaddisconnected", record);
+    const remove = installGamepadShim(new VirtualGamepad({ index: 2 }));
+    remove();
+    window.removeEventListener("gamepadconnected", record);
+    window.removeEventListener("gamepaddisconnected", record);
+    expect(events).toEqual(["gamepadconnected 2", "gamepaddisconnected 2"]);
+  });
+});